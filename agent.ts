@@ -1,259 +1,270 @@
-import { convertToModelMessages, streamText, tool, generateText } from "ai";
+import { randomUUID } from "node:crypto";
+import { join } from "node:path";
+import {
+  convertToModelMessages,
+  stepCountIs,
+  streamText,
+  tool,
+  type StopCondition,
+} from "ai";
 import * as blink from "blink";
 import { z } from "zod";
-import { parse } from "node-html-parser";
 import * as slackbot from "@blink-sdk/slackbot";
 import withModelIntent from "@blink-sdk/model-intent";
-
-const HN_API_BASE = "https://hacker-news.firebaseio.com/v0";
-
-type CacheEntry<T> = { value: T; expires: number };
-
-const nowMs = () => Date.now();
-
-const pMap = async <T, R>(
-  items: T[],
-  mapper: (t: T, i: number) => Promise<R>,
-  concurrency: number
-): Promise<R[]> => {
-  const ret: R[] = new Array(items.length);
-  let idx = 0;
-  let active = 0;
-  return new Promise((resolve, reject) => {
-    const run = () => {
-      if (idx >= items.length && active === 0) return resolve(ret);
-      while (active < concurrency && idx < items.length) {
-        const i = idx++;
-        active++;
-        Promise.resolve(mapper(items[i], i))
-          .then((r) => {
-            ret[i] = r;
-            active--;
-            run();
-          })
-          .catch((e) => reject(e));
-      }
-    };
-    run();
-  });
-};
-
-class HackerNewsAPI {
-  private cache = new Map<string, CacheEntry<any>>();
-  private pending = new Map<string, Promise<any>>();
-  private ttlTopStories: number;
-  private ttlItem: number;
-  private concurrency: number;
-  private cleanupTimer: any;
-
-  constructor(opts?: {
-    ttlTopStoriesMs?: number;
-    ttlItemMs?: number;
-    concurrency?: number;
-  }) {
-    this.ttlTopStories = opts?.ttlTopStoriesMs ?? 2 * 60 * 1000;
-    this.ttlItem = opts?.ttlItemMs ?? 10 * 60 * 1000;
-    this.concurrency = Math.max(1, Math.min(32, opts?.concurrency ?? 12));
-    this.cleanupTimer = setInterval(() => this.cleanup(), 60 * 1000);
-    if (typeof this.cleanupTimer.unref === "function")
-      this.cleanupTimer.unref();
-  }
-
-  private getCached<T>(key: string): T | null {
-    const e = this.cache.get(key);
-    if (!e) return null;
-    if (e.expires < nowMs()) {
-      this.cache.delete(key);
-      return null;
-    }
-    return e.value as T;
-  }
-
-  private setCached<T>(key: string, value: T, ttlMs: number) {
-    this.cache.set(key, { value, expires: nowMs() + ttlMs });
-  }
-
-  private async dedupe<T>(key: string, fn: () => Promise<T>): Promise<T> {
-    const p = this.pending.get(key);
-    if (p) return p as Promise<T>;
-    const created = fn();
-    this.pending.set(key, created);
-    try {
-      const v = await created;
-      return v;
-    } finally {
-      this.pending.delete(key);
-    }
-  }
-
-  private async getJSON<T>(url: string): Promise<T> {
-    const res = await fetch(url);
-    return (await res.json()) as T;
-  }
-
-  async getTopStories(): Promise<number[]> {
-    const key = "topstories";
-    const cached = this.getCached<number[]>(key);
-    if (cached) return cached;
-    const val = await this.dedupe<number[]>(key, async () => {
-      const data = await this.getJSON<number[]>(
-        `${HN_API_BASE}/topstories.json`
-      );
-      this.setCached(key, data, this.ttlTopStories);
-      return data;
-    });
-    return val;
-  }
-
-  async getItem(id: number): Promise<any> {
-    const key = `item:${id}`;
-    const cached = this.getCached<any>(key);
-    if (cached) return cached;
-    const val = await this.dedupe<any>(key, async () => {
-      const data = await this.getJSON<any>(`${HN_API_BASE}/item/${id}.json`);
-      this.setCached(key, data, this.ttlItem);
-      return data;
-    });
-    return val;
-  }
-
-  async getBatchItems(ids: number[]): Promise<any[]> {
-    return pMap(ids, (id) => this.getItem(id), this.concurrency);
-  }
-
-  private cleanup() {
-    const t = nowMs();
-    for (const [k, v] of this.cache) {
-      if (v.expires < t) this.cache.delete(k);
-    }
-  }
+import {
+  HN_FEEDS,
+  HackerNewsAPI,
+  itemStatus,
+  normalizeItem,
+  type ItemStatus,
+} from "./hn-api";
+import { FileCacheStore, MemoryCacheStore } from "./cache-store";
+import { HackerNewsSearch } from "./hn-search";
+import { HNWatcher } from "./hn-watcher";
+import {
+  AlgoliaDiscussionLookup,
+  PreviousDiscussions,
+} from "./previous-discussions";
+import { DigestScheduler, DigestStore, nextDigestRun } from "./digests";
+import { SnapshotStore, TrendTracker } from "./trending";
+import {
+  digestBlocks,
+  escapeMrkdwn,
+  storyCard,
+  storyLine,
+  storyListBlocks,
+  storyStats,
+  type Block,
+} from "./slack-blocks";
+import { SlackInteractions } from "./slack-interactions";
+import { SlashCommands } from "./slash-command";
+import { HttpApi } from "./http-api";
+import { loadConfig } from "./config";
+import {
+  OUTPUT_STYLES,
+  PREFERENCE_LEVELS,
+  PreferenceStore,
+  SUMMARY_LENGTHS,
+  preferencePrompt,
+  type PreferenceScope,
+  type Preferences,
+} from "./preferences";
+import { ExtractorRegistry } from "./article";
+import { ArticleCache } from "./article-cache";
+import { builtinExtractors } from "./extractors";
+import { HttpClient } from "./http";
+import { UrlPolicy } from "./url-safety";
+import { FixtureTransport } from "./record-replay";
+import { FakeClock, useClock } from "./clock";
+import {
+  SubscriptionAlerter,
+  SubscriptionStore,
+  managedFrom,
+} from "./subscriptions";
+import {
+  cutOffResult,
+  feedStories,
+  hnTools,
+  partialReport,
+  type HnToolDeps,
+} from "./hn-tools";
+
+const config = loadConfig();
+const { limits } = config;
+const dataFile = (name: string) => join(config.dataDir, name);
+
+// Offline runs go through recorded responses. Replays also freeze the clock
+// at recording time so ages like "3h ago" come out the same every run.
+const fixtures =
+  config.fixtures.mode === "off"
+    ? null
+    : new FixtureTransport({
+        mode: config.fixtures.mode,
+        dir: config.fixtures.dir,
+        maxBytes: config.http.maxBytes,
+      });
+if (fixtures?.mode === "replay") {
+  useClock(new FakeClock(fixtures.recordedAt() ?? Date.now()));
 }
 
-const hnApi = new HackerNewsAPI();
-
-const timeAgo = (unixSeconds: number | null) => {
-  if (!unixSeconds || typeof unixSeconds !== "number") return null;
-  const now = Math.floor(Date.now() / 1000);
-  let s = Math.max(0, now - unixSeconds);
-  const units: [number, string][] = [
-    [365 * 24 * 3600, "y"],
-    [30 * 24 * 3600, "mo"],
-    [7 * 24 * 3600, "w"],
-    [24 * 3600, "d"],
-    [3600, "h"],
-    [60, "m"],
-    [1, "s"],
-  ];
-  for (const [sec, label] of units) {
-    if (s >= sec) return `${Math.floor(s / sec)}${label} ago`;
-  }
-  return "just now";
+const httpOptions = {
+  fetch: fixtures?.fetch,
+  userAgent: config.http.userAgent,
+  timeoutMs: config.http.timeoutMs,
+  retries: config.http.retries,
+  maxBytes: config.http.maxBytes,
+  perHostConcurrency: config.http.perHostConcurrency,
+  perHostIntervalMs: config.http.perHostIntervalMs,
+  maxRedirects: config.http.maxRedirects,
 };
 
-const stripHtml = (html: string | null | undefined) => {
-  if (!html) return null;
-  try {
-    const root = parse(html);
-    return root.textContent?.replace(/\s+/g, " ").trim() || null;
-  } catch {
-    return html
-      .replace(/<[^>]*>/g, " ")
-      .replace(/\s+/g, " ")
-      .trim();
-  }
-};
+const http = new HttpClient({
+  ...httpOptions,
+  hostTimeouts: Object.fromEntries(
+    [
+      config.hn.apiBaseUrl,
+      config.hn.searchBaseUrl,
+      config.hn.discussionsBaseUrl,
+    ].flatMap((u) => (u ? [[new URL(u).hostname, config.hn.timeoutMs]] : []))
+  ),
+});
 
-const fetchWithTimeout = async (
-  url: string,
-  opts: any = {},
-  timeoutMs = 8000
-): Promise<Response> => {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    const res = await fetch(url, {
-      ...(opts || {}),
-      signal: controller.signal,
-    });
-    return res;
-  } finally {
-    clearTimeout(id);
-  }
+const hnApi = new HackerNewsAPI({
+  store: config.hn.cacheFile
+    ? new FileCacheStore({
+        path: config.hn.cacheFile,
+        maxEntries: config.hn.cacheMaxEntries,
+      })
+    : new MemoryCacheStore({ maxEntries: config.hn.cacheMaxEntries }),
+  http,
+  baseUrl: config.hn.apiBaseUrl,
+  concurrency: config.hn.concurrency,
+  ttlTopStoriesMs: config.hn.topStoriesTtlMs,
+  ttlItemMs: config.hn.itemTtlMs,
+  ttlUserMs: config.hn.userTtlMs,
+});
+// Article links come from HN submissions, so anyone can point them anywhere.
+// Their client checks every request and redirect against the URL policy.
+const articleHttp = new HttpClient({
+  ...httpOptions,
+  perHostIntervalMs: config.articles.perHostIntervalMs,
+  policy: new UrlPolicy({
+    denyDomains: config.articles.denyDomains,
+    allowDomains: config.articles.allowDomains,
+    lookup: fixtures?.lookup,
+  }),
+});
+const articleCache = new ArticleCache({
+  http: articleHttp,
+  registry: builtinExtractors(new ExtractorRegistry(), {
+    githubToken: config.github.token,
+  }),
+  contentTypes: config.articles.contentTypes,
+  maxEntries: config.articles.cacheMaxEntries,
+  ttlMs: config.articles.cacheTtlMs,
+  staleTtlMs: config.articles.staleTtlMs,
+});
+const hnSearch = new HackerNewsSearch({
+  http,
+  baseUrl: config.hn.searchBaseUrl,
+  ttlMs: config.hn.searchTtlMs,
+});
+// hn.discussionsBaseUrl points repost lookups at another Algolia-compatible
+// endpoint (e.g. a local stand-in) without moving search_hn.
+const previousDiscussions = new PreviousDiscussions({
+  lookup: new AlgoliaDiscussionLookup({
+    search: config.hn.discussionsBaseUrl
+      ? new HackerNewsSearch({
+          http,
+          baseUrl: config.hn.discussionsBaseUrl,
+          ttlMs: config.hn.searchTtlMs,
+        })
+      : hnSearch,
+  }),
+});
+const hnWatcher = new HNWatcher({ api: hnApi });
+
+// Post outside of a conversation, using Slack metadata captured earlier.
+// `text` is the notification and fallback text when blocks are given.
+const postToSlack = async (
+  metadata: any,
+  channel: string,
+  text: string,
+  blocks?: Block[]
+) => {
+  const client = await slackbot.createClient(metadata);
+  await client.chat.postMessage({ channel, text, blocks, unfurl_links: false });
 };
 
-// Simple readability-like text extraction
-const extractArticleText = (html: string): string | null => {
-  if (!html) return null;
-
-  try {
-    const root = parse(html);
-
-    // Remove unwanted elements
-    const unwantedSelectors = [
-      "script",
-      "style",
-      "nav",
-      "header",
-      "footer",
-      ".ad",
-      ".advertisement",
-      ".sidebar",
-      ".menu",
-      ".social",
-      ".share",
-      ".comments",
-      ".related",
-    ];
-
-    unwantedSelectors.forEach((selector) => {
-      root.querySelectorAll(selector).forEach((el) => el.remove());
-    });
+const subscriptionStore = new SubscriptionStore({
+  path: dataFile("subscriptions.json"),
+});
+const subscriptionAlerter = new SubscriptionAlerter({
+  store: subscriptionStore,
+  api: hnApi,
+  watcher: hnWatcher,
+  post: async (sub, item, reasons) => {
+    const note = [
+      item.text ? `> ${escapeMrkdwn(item.text.slice(0, 280))}` : null,
+      reasons.length ? `_Matched: ${escapeMrkdwn(reasons.join(", "))}_` : null,
+    ]
+      .filter(Boolean)
+      .join("\n");
+    // The fallback text is mrkdwn too, so it is escaped like the card.
+    const text = [storyLine(item), storyStats(item), note]
+      .filter(Boolean)
+      .join("\n");
+    await postToSlack(
+      sub.slack,
+      sub.channel,
+      text,
+      storyCard(item, { note: note || undefined })
+    );
+  },
+});
+subscriptionAlerter.sync();
+
+const digestStore = new DigestStore({ path: dataFile("digests.json") });
+const digestScheduler = new DigestScheduler({
+  store: digestStore,
+  api: hnApi,
+  articles: articleCache,
+  model: config.models.summarize,
+  deadlineMs: config.tools.summaryDeadlineMs,
+  tldr: config.tldr,
+  post: (digest, run) =>
+    postToSlack(
+      digest.slack,
+      digest.channel,
+      `*Hacker News ${digest.feed} digest*\n\n${run.text}`,
+      digestBlocks(`Hacker News ${digest.feed} digest`, run.text, run.stories)
+    ),
+});
+digestScheduler.start();
 
-    // Look for main content containers
-    const contentSelectors = [
-      "article",
-      '[role="main"]',
-      "main",
-      ".content",
-      ".post",
-      ".entry",
-      ".article",
-      "#content",
-      ".post-content",
-      ".entry-content",
-    ];
-
-    for (const selector of contentSelectors) {
-      const content = root.querySelector(selector);
-      if (content) {
-        const text = content.textContent?.trim();
-        if (text && text.length > 100) {
-          return text.replace(/\s+/g, " ");
-        }
-      }
-    }
+const httpApi = new HttpApi({
+  api: hnApi,
+  digests: digestStore,
+  token: config.api.token,
+  limits: config.limits,
+});
 
-    // Fallback: find paragraphs and combine them
-    const paragraphs = root.querySelectorAll("p");
-    const textParts: string[] = [];
+const preferenceStore = new PreferenceStore({
+  path: dataFile("preferences.json"),
+});
 
-    paragraphs.forEach((p) => {
-      const text = p.textContent?.trim();
-      if (text && text.length > 20) {
-        textParts.push(text);
-      }
-    });
+const slackInteractions = new SlackInteractions({
+  api: hnApi,
+  articles: articleCache,
+  previous: previousDiscussions,
+  preferences: preferenceStore,
+  signingSecret: config.slack.signingSecret,
+  model: config.models.summarize,
+  tldr: config.tldr,
+  respondTimeoutMs: config.http.timeoutMs,
+});
 
-    if (textParts.length > 0) {
-      return textParts.join(" ").replace(/\s+/g, " ");
-    }
+// Preferences are keyed by the workspace, channel and user a Slack message
+// came from.
+const preferenceScope = (metadata: any): PreferenceScope => ({
+  team: metadata?.team ?? null,
+  channel: metadata?.channel ?? null,
+  user: metadata?.user ?? null,
+});
 
-    // Final fallback: get all text
-    const allText = root.textContent?.trim();
-    return allText && allText.length > 50 ? allText.replace(/\s+/g, " ") : null;
-  } catch {
-    return null;
-  }
+const trendTracker = new TrendTracker({
+  api: hnApi,
+  store: new SnapshotStore({ path: dataFile("snapshots.json") }),
+});
+trendTracker.start();
+
+const hnToolDeps: HnToolDeps = {
+  api: hnApi,
+  articles: articleCache,
+  search: hnSearch,
+  previous: previousDiscussions,
+  trends: trendTracker,
+  config,
 };
 
 // Platform detection and prompt generation
@@ -261,13 +272,37 @@ const detectPlatform = (messages: any[]) => {
   return slackbot.findLastMessageMetadata(messages) ? "slack" : "web";
 };
 
-const createSystemPrompt = (platform: "slack" | "web") => {
-  const basePrompt = `Your name is Hacker Tracker. You can fetch Hacker News top stories via tools and write brief summaries.
+const slackFormatting = `### Slack Formatting Rules:
+- *text* = bold (NOT italics like in standard markdown)
+- _text_ = italics  
+- \`text\` = inline code
+- \`\`\` = code blocks (do NOT put a language after the backticks)
+- ~text~ = strikethrough
+- <http://example.com|link text> = links
+- tables must be in a code block
+- user mentions must be in the format <@user_id> (e.g. <@U01UBAM2C4D>)
+
+### Never Use in Slack:
+- Headings (#, ##, ###, etc.)
+- Double asterisks (**text**) - Slack doesn't support this
+- Standard markdown bold/italic conventions`;
+
+const platformPrompt = (platform: "slack" | "slash_command" | "web") => {
+  const basePrompt = `Your name is Hacker Tracker. You can fetch Hacker News stories via tools and write brief summaries.
 - Always include links to stories or comments.
 - Keep each summary to 2–3 sentences.
 - If a story has no URL (e.g., Ask HN), use the HN text field.
 - Only fetch full article content when explicitly asked.
+- Pick the feed that matches the request: "new" for latest, "best" for best of, "ask"/"show" for Ask HN/Show HN, "job" for hiring posts; default to "top".
 - To fetch a full story with comments, use fetch_hn_item_details.
+- For how a thread reacted (themes, which subthreads agree or push back, where people argue), use analyze_hn_discussion and link the comment permalinks it returns.
+- To find what is rising fastest (not just what is on top), use fetch_hn_trending.
+- To find what HN has said about a topic, person or time period, use search_hn.
+- To check whether a link was discussed on HN before, use find_previous_discussions.
+- When asked to change how you behave in a channel (default feed, number of stories, summary length, muted domains or keywords, whether to fetch articles, output style), use set_hn_preferences; get_hn_preferences shows the current settings.
+- To learn who an HN user is and what they usually post about, use fetch_hn_user.
+- When asked for a recurring digest (e.g. a morning standup summary), use create_hn_digest; list_hn_digests, delete_hn_digest and run_hn_digest manage them.
+- When asked to alert or notify a channel about topics, domains or authors, use create_hn_subscription; list_hn_subscriptions and delete_hn_subscription manage them.
 - NEVER include emojies in your messages.
 - You can read Slack messages, threads, and user info using the slackbot_read_* tools.`;
 
@@ -287,21 +322,21 @@ When chatting in Slack channels:
 - Use bullet points or numbered lists for easy reading when listing items
 - Never include emojis in responses unless explicitly asked to do so
 - Prefer short responses with maximum 2,900 characters
+- When listing stories, post them as cards with send_hn_story_cards (each card has TLDR, Top comments and Open thread buttons), then add a short note instead of repeating the list
 
-### Slack Formatting Rules:
-- *text* = bold (NOT italics like in standard markdown)
-- _text_ = italics  
-- \`text\` = inline code
-- \`\`\` = code blocks (do NOT put a language after the backticks)
-- ~text~ = strikethrough
-- <http://example.com|link text> = links
-- tables must be in a code block
-- user mentions must be in the format <@user_id> (e.g. <@U01UBAM2C4D>)
+${slackFormatting}`;
+  } else if (platform === "slash_command") {
+    return `${basePrompt}
 
-### Never Use in Slack:
-- Headings (#, ##, ###, etc.)
-- Double asterisks (**text**) - Slack doesn't support this
-- Standard markdown bold/italic conventions`;
+## Slack Slash Command Behavior:
+This question came from the /hn ask slash command. There is no conversation: your final message is posted once to the channel it was asked in, and nobody can reply to it.
+
+### Communication Style:
+- Answer in a single message with maximum 2,900 characters
+- Do not call the slackbot_* tools; there is no Slack message to react to or read from
+- Never include emojis in responses
+
+${slackFormatting}`;
   } else {
     return `${basePrompt}
 
@@ -321,15 +356,48 @@ When chatting in Slack channels:
   }
 };
 
-export default blink.agent({
-  async sendMessages({ messages, abortSignal }) {
-    const platform = detectPlatform(messages);
-    const systemPrompt = createSystemPrompt(platform);
+// Preferences go last so they can override the defaults above.
+const createSystemPrompt = (
+  platform: "slack" | "slash_command" | "web",
+  prefs: Preferences = {}
+) => {
+  const prompt = platformPrompt(platform);
+  const section = preferencePrompt(prefs);
+  return section ? `${prompt}\n\n${section}` : prompt;
+};
+
+// Blink drives the tool loop for chats; `/hn ask` passes `stopWhen` to let a
+// single call run tools until it has an answer.
+const hackerTracker = {
+  sendMessages({
+    messages,
+    abortSignal,
+    platform = detectPlatform(messages),
+    stopWhen,
+  }: {
+    messages: any[];
+    abortSignal?: AbortSignal;
+    platform?: "slack" | "slash_command" | "web";
+    stopWhen?: StopCondition<any>;
+  }) {
+    const metadata = slackbot.findLastMessageMetadata(messages);
+    const prefs = metadata
+      ? preferenceStore.effective(preferenceScope(metadata)).preferences
+      : {};
+    const systemPrompt = createSystemPrompt(platform, prefs);
+    // Each HN tool call stops at its deadline, or when the turn is aborted, and
+    // returns what it has by then.
+    const deadline = (ms: number) =>
+      abortSignal
+        ? AbortSignal.any([abortSignal, AbortSignal.timeout(ms)])
+        : AbortSignal.timeout(ms);
 
     return streamText({
-      model: "anthropic/claude-sonnet-4",
+      model: config.models.chat,
       system: systemPrompt,
       messages: convertToModelMessages(messages),
+      abortSignal,
+      stopWhen,
       tools: withModelIntent(
         {
           ...slackbot.tools({
@@ -455,399 +523,385 @@ export default blink.agent({
             },
           }),
 
-          fetch_hn_top_articles: tool({
+          ...hnTools(hnToolDeps, { prefs, deadline }),
+
+          send_hn_story_cards: tool({
             description:
-              "Fetch top N HN stories and (optionally) extract readable article text. Includes points, comment count, and time ago.",
+              "Post HN stories to the current Slack thread as Block Kit cards with TLDR, Top comments and Open thread buttons. Slack only.",
             inputSchema: z.object({
-              limit: z.number().int().min(1).max(30).default(10),
-              include_article: z.boolean().default(false),
-              max_content_chars: z
+              story_ids: z
+                .array(z.number().int())
+                .max(limits.maxCardStories)
+                .optional(),
+              feed: z
+                .enum(HN_FEEDS)
+                .default(prefs.default_feed ?? "top")
+                .describe("Feed to take stories from when story_ids is empty."),
+              limit: z
                 .number()
                 .int()
-                .min(200)
-                .max(20000)
-                .default(1200),
+                .min(1)
+                .max(limits.maxCardStories)
+                .default(
+                  Math.min(prefs.story_count ?? 5, limits.maxCardStories)
+                ),
+              header: z.string().optional(),
             }),
-            execute: async ({ limit, include_article, max_content_chars }) => {
-              const ids = (await hnApi.getTopStories()).slice(0, limit);
-              const rawItems = await hnApi.getBatchItems(ids);
-
-              const items = await pMap(
-                ids,
-                async (id, i) => {
-                  const item = rawItems[i];
-                  try {
-                    const base = {
-                      id: (item?.id as number | null) ?? null,
-                      title: (item?.title as string | null) ?? null,
-                      by: (item?.by as string | null) ?? null,
-                      score: (item?.score as number | null) ?? null,
-                      time: (item?.time as number | null) ?? null,
-                      time_ago: timeAgo(item?.time ?? null),
-                      url: (item?.url as string | undefined) || null,
-                      type: (item?.type as string | null) ?? null,
-                      text: stripHtml(item?.text as string | undefined) || null,
-                      comments_count:
-                        (item?.descendants as number | null) ?? null,
-                      comments_url: item?.id
-                        ? `https://news.ycombinator.com/item?id=${item.id}`
-                        : null,
-                    } as const;
-
-                    if (!item?.url) {
-                      return {
-                        ...base,
-                        content: base.text
-                          ? base.text.slice(0, max_content_chars)
-                          : null,
-                        source: "hn" as const,
-                      };
-                    }
-
-                    if (!include_article) {
-                      return { ...base, content: null, source: "url" as const };
-                    }
-
-                    try {
-                      const res = await fetchWithTimeout(item.url, {
-                        headers: {
-                          "User-Agent":
-                            "hn-summarizer/1.0 (+https://example.com)",
-                        },
-                      });
-                      const html = await res.text();
-                      const content = extractArticleText(html);
-                      return {
-                        ...base,
-                        content: content
-                          ? content.slice(0, max_content_chars)
-                          : null,
-                        source: "url" as const,
-                      };
-                    } catch {
-                      return {
-                        ...base,
-                        content: null,
-                        source: "error" as const,
-                      };
-                    }
-                  } catch {
-                    return {
-                      id,
-                      title: null,
-                      by: null,
-                      score: null,
-                      time: null,
-                      time_ago: null,
-                      url: null,
-                      type: null,
-                      text: null,
-                      comments_count: null,
-                      comments_url: null,
-                      content: null,
-                      source: "error" as const,
-                    };
-                  }
-                },
-                12
-              );
-
-              return { items };
+            execute: async ({ story_ids, feed, limit, header }) => {
+              const metadata = slackbot.findLastMessageMetadata(messages);
+              if (!metadata) {
+                throw new Error("This chat isn't from Slack!");
+              }
+              const signal = deadline(config.tools.deadlineMs);
+              let raw: any[];
+              let statuses: ItemStatus[];
+              if (story_ids?.length) {
+                const settled = await hnApi.getBatchItemsSettled(story_ids, {
+                  signal,
+                });
+                raw = settled.map((r) =>
+                  r.status === "fulfilled" ? r.value : null
+                );
+                statuses = settled.map((r, i) => itemStatus(story_ids[i], r));
+              } else {
+                try {
+                  ({ items: raw, statuses } = await feedStories(
+                    hnApi,
+                    feed,
+                    limit,
+                    prefs,
+                    signal
+                  ));
+                } catch (e) {
+                  return { posted: [], ...cutOffResult(e, signal) };
+                }
+              }
+              const items = raw.filter(Boolean).map((i) => normalizeItem(i));
+              if (!items.length) {
+                return { posted: [], ...partialReport(statuses) };
+              }
+              const client = await slackbot.createClient(metadata);
+              await client.chat.postMessage({
+                channel: metadata.channel,
+                thread_ts: metadata.threadTs ?? metadata.ts,
+                text: header ?? `${items.length} Hacker News stories`,
+                blocks: storyListBlocks(items, {
+                  header,
+                  ranked: !story_ids?.length,
+                }),
+                unfurl_links: false,
+              });
+              return {
+                posted: items.map((i) => i.id),
+                ...partialReport(statuses),
+              };
             },
           }),
 
-          fetch_hn_item_details: tool({
+          create_hn_subscription: tool({
             description:
-              "Fetch a single HN item by id, with optional article body and comment tree (configurable depth and limits).",
+              "Subscribe the current Slack channel to HN stories matching keywords (in the title), domains or authors, optionally above a minimum score. Matching stories are posted to the channel once each.",
             inputSchema: z.object({
-              id: z.number().int(),
-              include_article: z.boolean().default(false),
-              include_comments: z.boolean().default(false),
-              max_depth: z.number().int().min(0).max(5).default(1),
-              max_comments: z.number().int().min(1).max(500).default(50),
-              strip_html: z.boolean().default(true),
+              keywords: z.array(z.string()).default([]),
+              domains: z
+                .array(z.string())
+                .default([])
+                .describe("e.g. github.com; subdomains match too."),
+              authors: z.array(z.string()).default([]),
+              min_score: z.number().int().min(1).optional(),
+              channel: z
+                .string()
+                .optional()
+                .describe("Channel ID to alert. Defaults to this channel."),
             }),
             execute: async ({
-              id,
-              include_article,
-              include_comments,
-              max_depth,
-              max_comments,
-              strip_html,
+              keywords,
+              domains,
+              authors,
+              min_score,
+              channel,
             }) => {
-              const loadItem = async (itemId: number) => hnApi.getItem(itemId);
-
-              const item = await loadItem(id);
-              if (!item) return { error: "not_found", id } as const;
-
-              const base = {
-                id: (item?.id as number | null) ?? null,
-                title: (item?.title as string | null) ?? null,
-                by: (item?.by as string | null) ?? null,
-                score: (item?.score as number | null) ?? null,
-                time: (item?.time as number | null) ?? null,
-                time_ago: timeAgo(item?.time ?? null),
-                url: (item?.url as string | undefined) || null,
-                type: (item?.type as string | null) ?? null,
-                text: strip_html
-                  ? stripHtml(item?.text as string | undefined)
-                  : (item?.text as string | undefined) || null,
-                comments_count: (item?.descendants as number | null) ?? null,
-                comments_url: item?.id
-                  ? `https://news.ycombinator.com/item?id=${item.id}`
-                  : null,
-              };
-
-              let article_content: string | null = null;
-              if (include_article && item?.url) {
-                try {
-                  const res = await fetch(item.url, {
-                    headers: {
-                      "User-Agent": "hn-summarizer/1.0 (+https://example.com)",
-                    },
-                  });
-                  const html = await res.text();
-                  article_content = extractArticleText(html);
-                } catch {
-                  article_content = null;
-                }
+              const metadata = slackbot.findLastMessageMetadata(messages);
+              if (!metadata) {
+                throw new Error("This chat isn't from Slack!");
               }
-
-              let comments: any[] | null = null;
               if (
-                include_comments &&
-                Array.isArray(item?.kids) &&
-                item.kids.length
+                !keywords.length &&
+                !domains.length &&
+                !authors.length &&
+                min_score == null
               ) {
-                let remaining = max_comments;
-                const loadComment = async (
-                  cid: number,
-                  depth: number
-                ): Promise<any | null> => {
-                  if (remaining <= 0) return null;
-                  try {
-                    const c = await loadItem(cid);
-                    if (!c || c?.type !== "comment") return null;
-                    remaining -= 1;
-                    const node: any = {
-                      id: c.id ?? null,
-                      by: c.by ?? null,
-                      time: c.time ?? null,
-                      time_ago: timeAgo(c.time ?? null),
-                      text: strip_html ? stripHtml(c.text) : c.text ?? null,
-                      parent: c.parent ?? null,
-                      dead: !!c.dead,
-                      deleted: !!c.deleted,
-                      kids_count: Array.isArray(c.kids) ? c.kids.length : 0,
-                      children: [] as any[],
-                    };
-                    if (
-                      depth < max_depth &&
-                      Array.isArray(c.kids) &&
-                      c.kids.length &&
-                      remaining > 0
-                    ) {
-                      const children: any[] = [];
-                      for (const kid of c.kids) {
-                        if (remaining <= 0) break;
-                        const child = await loadComment(kid, depth + 1);
-                        if (child) children.push(child);
-                      }
-                      node.children = children;
-                    }
-                    return node;
-                  } catch {
-                    return null;
-                  }
-                };
-
-                const topLevel: any[] = [];
-                for (const kid of item.kids as number[]) {
-                  if (remaining <= 0) break;
-                  const node = await loadComment(kid, 0);
-                  if (node) topLevel.push(node);
-                }
-                comments = topLevel;
+                throw new Error(
+                  "A subscription needs at least one keyword, domain, author or min_score."
+                );
               }
+              const subscription = subscriptionStore.create({
+                channel: channel ?? metadata.channel,
+                keywords,
+                domains,
+                authors,
+                min_score: min_score ?? null,
+                created_by: metadata.user ?? null,
+                slack: metadata,
+              });
+              subscriptionAlerter.sync();
+              const { slack, ...rest } = subscription;
+              return { subscription: rest };
+            },
+          }),
 
-              return {
-                item: base,
-                article_content,
-                comments,
-              };
+          list_hn_subscriptions: tool({
+            description:
+              "List HN subscriptions for a Slack channel (defaults to the current channel). Only subscriptions set up in this workspace that post to, or were created from, the current channel are listed.",
+            inputSchema: z.object({
+              channel: z.string().optional(),
+            }),
+            execute: async ({ channel }) => {
+              const metadata = slackbot.findLastMessageMetadata(messages);
+              if (!metadata) {
+                throw new Error("This chat isn't from Slack!");
+              }
+              const subscriptions = subscriptionStore
+                .list({ channel: channel ?? metadata.channel, from: metadata })
+                .map(({ slack, ...rest }) => rest);
+              return { subscriptions };
+            },
+          }),
+
+          delete_hn_subscription: tool({
+            description: "Delete an HN subscription by id.",
+            inputSchema: z.object({
+              id: z.string(),
+            }),
+            execute: async ({ id }) => {
+              const metadata = slackbot.findLastMessageMetadata(messages);
+              if (!metadata) {
+                throw new Error("This chat isn't from Slack!");
+              }
+              const subscription = subscriptionStore.get(id);
+              if (!subscription || !managedFrom(subscription, metadata)) {
+                return { error: "not_found", id } as const;
+              }
+              const deleted = subscriptionStore.delete(id);
+              subscriptionAlerter.sync();
+              return { deleted, id };
             },
           }),
 
-          summarize_hn_tldr: tool({
+          create_hn_digest: tool({
             description:
-              "Create TLDR bullet points for stories and summarize overall sentiment/feedback based on comments.",
+              "Schedule a recurring TLDR digest of an HN feed, posted to a Slack channel on a cron schedule (e.g. '0 9 * * 1-5' for weekdays at 9:00).",
             inputSchema: z.object({
-              story_ids: z.array(z.number().int()).optional(),
-              limit: z.number().int().min(1).max(30).default(3),
-              include_article: z.boolean().default(true),
-              include_comments: z.boolean().default(false),
-              max_depth: z.number().int().min(0).max(3).default(1),
-              max_comments: z.number().int().min(1).max(100).default(10),
-              max_article_chars: z
-                .number()
-                .int()
-                .min(200)
-                .max(2000)
-                .default(2000),
-              max_comment_chars: z
+              schedule: z
+                .string()
+                .describe(
+                  "5-field cron (minute hour day month weekday) or a preset: @hourly (on the hour), @daily (09:00 every day), @weekdays (09:00 Monday to Friday), @weekly (09:00 Mondays). Times are in `timezone`."
+                ),
+              timezone: z
+                .string()
+                .default("UTC")
+                .describe("IANA time zone, e.g. America/New_York."),
+              feed: z.enum(HN_FEEDS).default(prefs.default_feed ?? "top"),
+              count: z
                 .number()
                 .int()
-                .min(50)
-                .max(2000)
-                .default(500),
-              format: z.enum(["markdown", "json"]).default("markdown"),
+                .min(1)
+                .max(limits.maxStories)
+                .default(Math.min(prefs.story_count ?? 5, limits.maxStories)),
+              include_article: z
+                .boolean()
+                .default(prefs.fetch_articles ?? true),
+              include_comments: z
+                .boolean()
+                .default(prefs.include_comments ?? false),
+              skip_covered: z
+                .boolean()
+                .default(true)
+                .describe(
+                  "Skip stories that earlier runs of this digest already covered."
+                ),
+              channel: z
+                .string()
+                .optional()
+                .describe("Channel ID to post to. Defaults to this channel."),
             }),
-            execute: async (args) => {
-              const {
-                story_ids,
-                limit,
-                include_article,
-                include_comments,
-                max_depth,
-                max_comments,
-                max_article_chars,
-                max_comment_chars,
-                format,
-              } = args;
-
-              const loadItem = async (itemId: number) => hnApi.getItem(itemId);
-
-              let ids: number[] = story_ids ?? [];
-              if (!ids.length) {
-                ids = (await hnApi.getTopStories()).slice(0, limit);
+            execute: async ({ channel, ...opts }) => {
+              const metadata = slackbot.findLastMessageMetadata(messages);
+              if (!metadata) {
+                throw new Error("This chat isn't from Slack!");
               }
+              const digest = digestStore.create({
+                ...opts,
+                channel: channel ?? metadata.channel,
+                created_by: metadata.user ?? null,
+                slack: metadata,
+              });
+              const { slack, covered, ...rest } = digest;
+              return {
+                digest: rest,
+                next_run: nextDigestRun(digest)?.toISOString() ?? null,
+              };
+            },
+          }),
 
-              const items = await hnApi.getBatchItems(ids);
-
-              const stories = await pMap(
-                ids,
-                async (_id, i) => {
-                  try {
-                    const item = items[i];
-                    if (!item) return null;
-                    const base = {
-                      id: (item?.id as number | null) ?? null,
-                      title: (item?.title as string | null) ?? null,
-                      by: (item?.by as string | null) ?? null,
-                      score: (item?.score as number | null) ?? null,
-                      time: (item?.time as number | null) ?? null,
-                      time_ago: timeAgo(item?.time ?? null),
-                      url: (item?.url as string | undefined) || null,
-                      type: (item?.type as string | null) ?? null,
-                      text: stripHtml(item?.text as string | undefined),
-                      comments_count:
-                        (item?.descendants as number | null) ?? null,
-                      comments_url: item?.id
-                        ? `https://news.ycombinator.com/item?id=${item.id}`
-                        : null,
-                    };
-
-                    let article_excerpt: string | null = null;
-                    if (include_article && item?.url) {
-                      try {
-                        const res = await fetch(item.url, {
-                          headers: {
-                            "User-Agent":
-                              "hn-summarizer/1.0 (+https://example.com)",
-                          },
-                        });
-                        const html = await res.text();
-                        const text = extractArticleText(html);
-                        if (text)
-                          article_excerpt = text.slice(0, max_article_chars);
-                      } catch {
-                        article_excerpt = null;
-                      }
-                    }
-
-                    const flatComments: string[] = [];
-                    if (
-                      include_comments &&
-                      Array.isArray(item?.kids) &&
-                      item.kids.length
-                    ) {
-                      let remaining = max_comments;
-                      const loadComment = async (
-                        cid: number,
-                        depth: number
-                      ): Promise<void> => {
-                        if (remaining <= 0) return;
-                        try {
-                          const c = await loadItem(cid);
-                          if (!c || c?.type !== "comment") return;
-                          remaining -= 1;
-                          const txt = stripHtml(c.text) || "";
-                          if (txt)
-                            flatComments.push(txt.slice(0, max_comment_chars));
-                          if (
-                            depth < max_depth &&
-                            Array.isArray(c.kids) &&
-                            c.kids.length &&
-                            remaining > 0
-                          ) {
-                            for (const kid of c.kids) {
-                              if (remaining <= 0) break;
-                              await loadComment(kid, depth + 1);
-                            }
-                          }
-                        } catch {}
-                      };
-
-                      for (const kid of item.kids as number[]) {
-                        if (remaining <= 0) break;
-                        await loadComment(kid, 0);
-                      }
-                    }
-
-                    return {
-                      ...base,
-                      article_excerpt,
-                      comments_sample: flatComments,
-                    };
-                  } catch {
-                    return null;
-                  }
-                },
-                12
-              );
+          list_hn_digests: tool({
+            description:
+              "List scheduled HN digests for a Slack channel (defaults to the current channel). Only digests set up in this workspace that post to, or were created from, the current channel are listed.",
+            inputSchema: z.object({
+              channel: z.string().optional(),
+            }),
+            execute: async ({ channel }) => {
+              const metadata = slackbot.findLastMessageMetadata(messages);
+              if (!metadata) {
+                throw new Error("This chat isn't from Slack!");
+              }
+              const digests = digestStore
+                .list({ channel: channel ?? metadata.channel, from: metadata })
+                .map(({ slack, covered, ...rest }) => ({
+                  ...rest,
+                  covered_count: Object.keys(covered).length,
+                  next_run:
+                    nextDigestRun({ ...rest, covered, slack })?.toISOString() ??
+                    null,
+                }));
+              return { digests };
+            },
+          }),
 
-              const compact = stories.filter(Boolean);
+          delete_hn_digest: tool({
+            description: "Delete a scheduled HN digest by id.",
+            inputSchema: z.object({
+              id: z.string(),
+            }),
+            execute: async ({ id }) => {
+              const metadata = slackbot.findLastMessageMetadata(messages);
+              if (!metadata) {
+                throw new Error("This chat isn't from Slack!");
+              }
+              const digest = digestStore.get(id);
+              if (!digest || !managedFrom(digest, metadata)) {
+                return { error: "not_found", id } as const;
+              }
+              return { deleted: digestStore.delete(id), id };
+            },
+          }),
 
-              const prompt = `You are generating concise TLDRs for Hacker News items. For each story:
-- Include links, points, comment count, and time ago.
-            - Provide 2–3 bullet points summarizing what the story is about (based on title, article excerpt, or Ask HN text).
-- Provide overall sentiment and 2–3 bullets of feedback/themes observed in the comments sample.
-- Be neutral and factual; avoid speculation.
-Return ${format} format.`;
+          run_hn_digest: tool({
+            description:
+              "Run a scheduled HN digest immediately and post it to its channel.",
+            inputSchema: z.object({
+              id: z.string(),
+            }),
+            execute: async ({ id }) => {
+              const metadata = slackbot.findLastMessageMetadata(messages);
+              if (!metadata) {
+                throw new Error("This chat isn't from Slack!");
+              }
+              const digest = digestStore.get(id);
+              if (!digest || !managedFrom(digest, metadata)) {
+                return { error: "not_found", id } as const;
+              }
+              const run = await digestScheduler.runAndPost(id);
+              if (!run) return { error: "not_found_or_running", id } as const;
+              return { id, story_ids: run.story_ids, posted: true };
+            },
+          }),
 
-              const { text } = await generateText({
-                model: "anthropic/claude-sonnet-4",
-                system: prompt,
-                prompt: JSON.stringify(compact, null, 2),
-              });
+          get_hn_preferences: tool({
+            description:
+              "Show the HN preferences in effect for this Slack conversation and what is stored at the workspace, channel and user levels.",
+            inputSchema: z.object({}),
+            execute: async () => {
+              const metadata = slackbot.findLastMessageMetadata(messages);
+              if (!metadata) {
+                throw new Error("This chat isn't from Slack!");
+              }
+              const scope = preferenceScope(metadata);
+              const { preferences, sources } = preferenceStore.effective(scope);
+              return {
+                effective: preferences,
+                sources,
+                levels: Object.fromEntries(
+                  PREFERENCE_LEVELS.map((l) => [
+                    l,
+                    preferenceStore.get(l, scope),
+                  ])
+                ),
+              };
+            },
+          }),
 
-              if (format === "json") {
-                try {
-                  const parsed = JSON.parse(text);
-                  return {
-                    format,
-                    stories_count: compact.length,
-                    output: parsed,
-                  };
-                } catch {
-                  return {
-                    format,
-                    stories_count: compact.length,
-                    output_raw: text,
-                  };
-                }
+          set_hn_preferences: tool({
+            description:
+              "Change HN preferences for this Slack workspace, channel or user. More specific levels override less specific ones (user > channel > workspace); muted domains and keywords from every level apply. Omitted settings are kept; null clears a setting.",
+            inputSchema: z.object({
+              level: z
+                .enum(PREFERENCE_LEVELS)
+                .default("channel")
+                .describe(
+                  "workspace: everyone; channel: this channel; user: the person asking, everywhere."
+                ),
+              default_feed: z.enum(HN_FEEDS).nullable().optional(),
+              story_count: z
+                .number()
+                .int()
+                .min(1)
+                .max(limits.maxStories)
+                .nullable()
+                .optional(),
+              summary_length: z.enum(SUMMARY_LENGTHS).nullable().optional(),
+              output_style: z
+                .enum(OUTPUT_STYLES)
+                .nullable()
+                .optional()
+                .describe("cards posts story lists as Slack cards."),
+              fetch_articles: z
+                .boolean()
+                .nullable()
+                .optional()
+                .describe("false: don't read linked articles unless asked."),
+              include_comments: z
+                .boolean()
+                .nullable()
+                .optional()
+                .describe("Read comments for TLDRs and digests by default."),
+              muted_domains: z
+                .array(z.string())
+                .nullable()
+                .optional()
+                .describe(
+                  "Replaces the list at this level, e.g. ['medium.com']; subdomains are muted too."
+                ),
+              muted_keywords: z
+                .array(z.string())
+                .nullable()
+                .optional()
+                .describe(
+                  "Replaces the list at this level; matched in titles."
+                ),
+              reset: z
+                .boolean()
+                .default(false)
+                .describe("Clear everything at this level before applying."),
+            }),
+            execute: async ({ level, reset, ...patch }) => {
+              const metadata = slackbot.findLastMessageMetadata(messages);
+              if (!metadata) {
+                throw new Error("This chat isn't from Slack!");
               }
-              return { format, stories_count: compact.length, output: text };
+              const scope = preferenceScope(metadata);
+              if (reset) preferenceStore.clear(level, scope);
+              const stored = preferenceStore.update(
+                level,
+                scope,
+                patch,
+                metadata.user ?? null
+              );
+              return {
+                level,
+                stored,
+                effective: preferenceStore.effective(scope).preferences,
+              };
             },
           }),
         },
@@ -885,10 +939,50 @@ Return ${format} format.`;
       ),
     });
   },
+};
+
+// Answers `/hn ask`: a fresh one-message conversation with the same tools.
+const askAgent = async (question: string) => {
+  const result = hackerTracker.sendMessages({
+    messages: [
+      {
+        id: randomUUID(),
+        role: "user",
+        parts: [{ type: "text", text: question }],
+      },
+    ],
+    abortSignal: AbortSignal.timeout(config.slash.askDeadlineMs),
+    platform: "slash_command",
+    stopWhen: stepCountIs(config.slash.askMaxSteps),
+  });
+  return (await result.text).trim();
+};
+
+const slashCommands = new SlashCommands({
+  api: hnApi,
+  search: hnSearch,
+  previous: previousDiscussions,
+  ask: askAgent,
+  signingSecret: config.slack.signingSecret,
+  maxStories: config.limits.maxSlashStories,
+  defaultStories: config.slash.stories,
+  replyDeadlineMs: config.slash.replyDeadlineMs,
+});
+
+export default blink.agent({
+  async sendMessages({ messages, abortSignal }) {
+    return hackerTracker.sendMessages({ messages, abortSignal });
+  },
   async webhook(request) {
     if (slackbot.isOAuthRequest(request)) {
       return slackbot.handleOAuthRequest(request);
     }
+    const api = await httpApi.handle(request);
+    if (api) return api;
+    const interaction = await slackInteractions.handle(request);
+    if (interaction) return interaction;
+    const command = await slashCommands.handle(request);
+    if (command) return command;
     if (slackbot.isWebhook(request)) {
       return slackbot.handleWebhook(request);
     }
@@ -0,0 +1,142 @@
+import {
+  defaultExtractors,
+  type Article,
+  type ExtractorRegistry,
+} from "./article";
+import { MemoryCacheStore, type CacheStore } from "./cache-store";
+import { stripTrackingParams } from "./canonical-url";
+import { now } from "./clock";
+import {
+  HttpClient,
+  abortable,
+  throwIfAborted,
+  toFailure,
+  type FetchResult,
+} from "./http";
+
+type ArticleCacheEntry = { article: Article; fresh_until: number };
+
+// Cache key for a page: lowercase scheme and host, no default port, no
+// fragment and no tracking parameters. Anything unparseable is used as is.
+export const normalizeArticleUrl = (url: string) => {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return url;
+  }
+  u.hash = "";
+  stripTrackingParams(u);
+  u.searchParams.sort();
+  return u.toString();
+};
+
+// Extracted articles keyed by normalized URL. An entry is served as is for
+// ttlMs; after that it is revalidated with If-None-Match/If-Modified-Since
+// when the page sent validators, and re-extracted otherwise. Entries are kept
+// for staleTtlMs so validators outlive freshness. Concurrent fetches of the
+// same URL share one request, so a caller's signal only stops it waiting: the
+// shared fetch finishes (within the HTTP timeout) and still fills the cache.
+export class ArticleCache {
+  private store: CacheStore;
+  private http: HttpClient;
+  private registry: ExtractorRegistry;
+  private pending = new Map<string, Promise<Article>>();
+  private ttlMs: number;
+  private staleTtlMs: number;
+  private contentTypes: string[] | undefined;
+  private counters = { hits: 0, misses: 0, revalidated: 0 };
+
+  constructor(opts: {
+    http: HttpClient;
+    store?: CacheStore;
+    registry?: ExtractorRegistry;
+    ttlMs?: number;
+    staleTtlMs?: number;
+    maxEntries?: number;
+    // Accepted page media types; see DEFAULT_ARTICLE_CONTENT_TYPES.
+    contentTypes?: string[];
+  }) {
+    this.http = opts.http;
+    this.store =
+      opts.store ??
+      new MemoryCacheStore({ maxEntries: opts.maxEntries ?? 200 });
+    this.registry = opts.registry ?? defaultExtractors;
+    this.ttlMs = opts.ttlMs ?? 30 * 60 * 1000;
+    this.staleTtlMs = Math.max(this.ttlMs, opts.staleTtlMs ?? 24 * 3600 * 1000);
+    this.contentTypes = opts.contentTypes;
+  }
+
+  async get(url: string, opts?: { signal?: AbortSignal }): Promise<Article> {
+    throwIfAborted(opts?.signal, url);
+    const key = normalizeArticleUrl(url);
+    let entry: ArticleCacheEntry | undefined;
+    try {
+      entry = await this.store.get<ArticleCacheEntry>(key);
+    } catch {}
+    if (entry && entry.fresh_until > now()) {
+      this.counters.hits++;
+      return entry.article;
+    }
+
+    let p = this.pending.get(key);
+    if (!p) {
+      const created = this.load(key, url, entry);
+      this.pending.set(key, created);
+      created.finally(() => this.pending.delete(key)).catch(() => undefined);
+      p = created;
+    }
+    return abortable(p, opts?.signal);
+  }
+
+  // Same as get(), but never throws: failures come back as a typed reason
+  // the tools can surface.
+  async fetch(
+    url: string,
+    opts?: { signal?: AbortSignal }
+  ): Promise<FetchResult<Article>> {
+    try {
+      return { ok: true, value: await this.get(url, opts) };
+    } catch (e) {
+      return { ok: false, error: toFailure(e, url) };
+    }
+  }
+
+  async invalidate(url: string) {
+    try {
+      await this.store.delete(normalizeArticleUrl(url));
+    } catch {}
+  }
+
+  stats() {
+    return { ...this.counters, store: this.store.stats() };
+  }
+
+  private async load(
+    key: string,
+    url: string,
+    entry: ArticleCacheEntry | undefined
+  ): Promise<Article> {
+    const validators = entry?.article.validators;
+    const fresh = await this.registry.extract(
+      this.http,
+      url,
+      validators?.etag || validators?.last_modified ? validators : undefined,
+      this.contentTypes
+    );
+    // null only comes back for a conditional request, so entry is set.
+    const article = fresh ?? entry!.article;
+    if (fresh) this.counters.misses++;
+    else this.counters.revalidated++;
+    try {
+      await this.store.set<ArticleCacheEntry>(
+        key,
+        { article, fresh_until: now() + this.ttlMs },
+        this.staleTtlMs
+      );
+    } catch {
+      // A failing store should degrade to uncached reads, not errors.
+    }
+    return article;
+  }
+}
@@ -0,0 +1,126 @@
+import { HttpClient, HttpError, type HttpResponse } from "./http";
+import { DEFAULT_ARTICLE_CONTENT_TYPES } from "./config";
+import { builtinExtractors } from "./extractors";
+import type { ArticleMetadata } from "./readability";
+
+export type Article = {
+  url: string;
+  text: string;
+  metadata: ArticleMetadata;
+  // Which extractor produced the text, e.g. "github" or "html".
+  extractor: string;
+  // Source-specific extras such as stars for a repo or categories for a paper.
+  details?: Record<string, unknown>;
+  // Cache validators from the page response, used to revalidate it later.
+  validators?: Validators;
+};
+
+export type Validators = { etag: string | null; last_modified: string | null };
+
+export type ExtractedContent = Omit<
+  Article,
+  "url" | "extractor" | "validators"
+>;
+
+// Extractors keyed by URL fetch their content themselves (usually from an
+// API) and run before any download. Extractors keyed by content type get the
+// downloaded response. Returning null hands over to the next candidate.
+export type UrlExtractor = {
+  name: string;
+  match: (url: URL) => boolean;
+  extract: (url: URL, http: HttpClient) => Promise<ExtractedContent | null>;
+};
+
+export type ContentExtractor = {
+  name: string;
+  match: (contentType: string, res: HttpResponse) => boolean;
+  extract: (
+    res: HttpResponse
+  ) => ExtractedContent | null | Promise<ExtractedContent | null>;
+};
+
+export class ExtractorRegistry {
+  private urlExtractors: UrlExtractor[] = [];
+  private contentExtractors: ContentExtractor[] = [];
+
+  registerUrl(extractor: UrlExtractor) {
+    this.urlExtractors.push(extractor);
+    return this;
+  }
+
+  registerContent(extractor: ContentExtractor) {
+    this.contentExtractors.push(extractor);
+    return this;
+  }
+
+  // With validators from an earlier response the page request is
+  // conditional, and null means the server answered 304 Not Modified.
+  // Pages of other media types than `contentTypes` are refused unread.
+  async extract(
+    http: HttpClient,
+    url: string,
+    validators?: Validators,
+    contentTypes: string[] = DEFAULT_ARTICLE_CONTENT_TYPES
+  ): Promise<Article | null> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new HttpError("blocked", url, `Invalid URL: ${url}`);
+    }
+
+    // A failing API-backed extractor (rate limit, private repo) should not
+    // lose the page: fall through to the generic path.
+    for (const ex of this.urlExtractors) {
+      if (!ex.match(parsed)) continue;
+      try {
+        const out = await ex.extract(parsed, http);
+        if (out) return { url, extractor: ex.name, ...out };
+      } catch {}
+    }
+
+    const res = await http.request(url, {
+      headers: {
+        Accept:
+          "text/html,application/xhtml+xml,application/pdf,text/*;q=0.9,*/*;q=0.8",
+        ...(validators?.etag ? { "If-None-Match": validators.etag } : {}),
+        ...(validators?.last_modified
+          ? { "If-Modified-Since": validators.last_modified }
+          : {}),
+      },
+      allowNotModified: !!validators,
+      contentTypes,
+    });
+    if (res.status === 304) return null;
+    const responseValidators: Validators = {
+      etag: res.headers.get("etag"),
+      last_modified: res.headers.get("last-modified"),
+    };
+    const contentType = (res.contentType ?? "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    for (const ex of this.contentExtractors) {
+      if (!ex.match(contentType, res)) continue;
+      const out = await ex.extract(res);
+      if (out) {
+        return {
+          url: res.url,
+          extractor: ex.name,
+          ...out,
+          validators: responseValidators,
+        };
+      }
+    }
+    throw new HttpError(
+      "parse_error",
+      url,
+      contentType
+        ? `No readable text found (content type ${contentType})`
+        : "No readable text found in the page",
+      res.status
+    );
+  }
+}
+
+export const defaultExtractors = builtinExtractors(new ExtractorRegistry());
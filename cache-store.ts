@@ -0,0 +1,198 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { now } from "./clock";
+
+export type CacheEntry<T> = { value: T; expires: number };
+
+export type CacheStats = {
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  sets: number;
+  evictions: number;
+  expired: number;
+};
+
+// Storage behind HackerNewsAPI's cache. TTLs are decided by the caller per
+// key type; the store only enforces them and bounds its own size. A miss is
+// `undefined`, so `null` can be cached like any other value.
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  cleanup(): Promise<void>;
+  stats(): CacheStats;
+}
+
+const nowMs = () => now();
+
+// LRU over a Map: re-inserting on read keeps the most recently used keys at
+// the end, so eviction always takes the first key.
+export class MemoryCacheStore implements CacheStore {
+  protected entries = new Map<string, CacheEntry<any>>();
+  protected maxEntries: number;
+  private counters = {
+    hits: 0,
+    misses: 0,
+    sets: 0,
+    evictions: 0,
+    expired: 0,
+  };
+
+  constructor(opts?: { maxEntries?: number }) {
+    this.maxEntries = Math.max(1, opts?.maxEntries ?? 5000);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const e = this.entries.get(key);
+    if (!e) {
+      this.counters.misses++;
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (e.expires < nowMs()) {
+      this.counters.expired++;
+      this.counters.misses++;
+      this.changed();
+      return undefined;
+    }
+    this.entries.set(key, e);
+    this.counters.hits++;
+    return e.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: nowMs() + ttlMs });
+    this.counters.sets++;
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.counters.evictions++;
+    }
+    this.changed();
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.entries.delete(key)) this.changed();
+  }
+
+  async cleanup(): Promise<void> {
+    const t = nowMs();
+    let removed = 0;
+    for (const [k, v] of this.entries) {
+      if (v.expires < t) {
+        this.entries.delete(k);
+        removed++;
+      }
+    }
+    if (removed) {
+      this.counters.expired += removed;
+      this.changed();
+    }
+  }
+
+  stats(): CacheStats {
+    return {
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ...this.counters,
+    };
+  }
+
+  // Hook for persistent subclasses.
+  protected changed() {}
+}
+
+// Memory store mirrored to a JSON file so the cache survives restarts.
+// Writes are debounced and go to a temp file that is renamed into place;
+// call flush() to force one.
+export class FileCacheStore extends MemoryCacheStore {
+  private path: string;
+  private writeDelayMs: number;
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(opts: {
+    path: string;
+    maxEntries?: number;
+    writeDelayMs?: number;
+  }) {
+    super({ maxEntries: opts.maxEntries });
+    this.path = opts.path;
+    this.writeDelayMs = opts.writeDelayMs ?? 1000;
+    this.load();
+    process.once("exit", () => this.flushSync());
+  }
+
+  private load() {
+    let raw: string;
+    try {
+      raw = readFileSync(this.path, "utf8");
+    } catch {
+      return;
+    }
+    try {
+      const rows = JSON.parse(raw) as [string, CacheEntry<any>][];
+      const t = nowMs();
+      for (const [k, e] of rows) {
+        if (e && e.expires >= t) this.entries.set(k, e);
+      }
+      while (this.entries.size > this.maxEntries) {
+        this.entries.delete(this.entries.keys().next().value as string);
+      }
+    } catch {
+      // A corrupt cache file is not worth failing startup over.
+    }
+  }
+
+  protected changed() {
+    this.dirty = true;
+    // A write in progress schedules the next one when it finishes.
+    if (this.writeTimer || this.writing) return;
+    this.writeTimer = setTimeout(() => void this.flush(), this.writeDelayMs);
+    if (typeof this.writeTimer.unref === "function") this.writeTimer.unref();
+  }
+
+  async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    if (this.writing) return this.writing;
+    if (!this.dirty) return;
+    this.dirty = false;
+    const data = JSON.stringify([...this.entries]);
+    this.writing = this.write(data).finally(() => {
+      this.writing = null;
+      if (this.dirty) this.changed();
+    });
+    return this.writing;
+  }
+
+  private async write(data: string) {
+    try {
+      await mkdir(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.tmp`;
+      await writeFile(tmp, data);
+      await rename(tmp, this.path);
+    } catch {
+      // Persistence is best effort; the in-memory copy is still valid.
+    }
+  }
+
+  // On exit there is no time for an async write, or to finish one that was
+  // cut short.
+  private flushSync() {
+    if (!this.dirty && !this.writing) return;
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.tmp`;
+      writeFileSync(tmp, JSON.stringify([...this.entries]));
+      renameSync(tmp, this.path);
+    } catch {}
+  }
+}
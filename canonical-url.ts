@@ -0,0 +1,117 @@
+// URL canonicalization for matching submissions of the same page: HN stores
+// whatever the submitter pasted, so the same article shows up with and
+// without www, over http and https, with tracking parameters, or through a
+// mobile or archive mirror.
+
+// Query parameters that only track where a click came from.
+const TRACKING_PARAMS =
+  /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|ref|ref_src|ref_url|igshid)$/i;
+
+// Share parameters that are tracking only on these hosts; elsewhere "s" or
+// "feature" can be a real parameter.
+const SHARE_PARAMS = /^(s|si|feature)$/;
+const SOCIAL_HOSTS =
+  /(^|\.)(x\.com|twitter\.com|youtube\.com|youtu\.be|instagram\.com)$/;
+
+export const stripTrackingParams = (u: URL) => {
+  const social = SOCIAL_HOSTS.test(u.hostname);
+  for (const key of [...u.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key) || (social && SHARE_PARAMS.test(key)))
+      u.searchParams.delete(key);
+  }
+};
+
+// Hosts that serve the same content as another host.
+const HOST_MIRRORS: Record<string, string> = {
+  "mobile.twitter.com": "x.com",
+  "twitter.com": "x.com",
+  "nitter.net": "x.com",
+  "old.reddit.com": "reddit.com",
+  "np.reddit.com": "reddit.com",
+  "m.reddit.com": "reddit.com",
+  "m.youtube.com": "youtube.com",
+  "music.youtube.com": "youtube.com",
+  "m.facebook.com": "facebook.com",
+  "mobile.nytimes.com": "nytimes.com",
+  "m.imdb.com": "imdb.com",
+};
+
+// Rewrites for mirrors whose paths differ from the original.
+const rewrite = (u: URL): URL => {
+  const host = u.hostname;
+
+  if (host === "youtu.be") {
+    const id = u.pathname.slice(1);
+    const t = new URL("https://youtube.com/watch");
+    if (id) t.searchParams.set("v", id);
+    return t;
+  }
+  if (host === "youtube.com" && u.pathname.startsWith("/shorts/")) {
+    const t = new URL("https://youtube.com/watch");
+    t.searchParams.set("v", u.pathname.split("/")[2] ?? "");
+    return t;
+  }
+
+  // Wikipedia mobile: en.m.wikipedia.org -> en.wikipedia.org
+  const wiki = host.match(/^([a-z-]+)\.m\.wikipedia\.org$/);
+  if (wiki) u.hostname = `${wiki[1]}.wikipedia.org`;
+
+  // arXiv: one paper, whether linked as abstract, PDF or a specific version.
+  if (host === "arxiv.org" || host === "export.arxiv.org") {
+    const m = u.pathname.match(
+      /^\/(?:abs|pdf|html)\/(.+?)(?:v\d+)?(?:\.pdf)?\/?$/
+    );
+    if (m) return new URL(`https://arxiv.org/abs/${m[1]}`);
+  }
+
+  // GitHub paths are case-insensitive for owner and repo.
+  if (host === "github.com") {
+    const parts = u.pathname.split("/");
+    for (const i of [1, 2]) {
+      if (parts[i]) parts[i] = parts[i].toLowerCase().replace(/\.git$/, "");
+    }
+    u.pathname = parts.join("/");
+  }
+  return u;
+};
+
+// Canonical form used to compare URLs. Not necessarily fetchable: the
+// scheme is always https and mirrors map to one host.
+export const canonicalizeUrl = (url: string): string | null => {
+  let u: URL;
+  try {
+    u = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+
+  // https://web.archive.org/web/20200101000000/https://example.com/a
+  const archived = u.pathname.match(/^\/web\/\d+[a-z_]*\/(.+)$/);
+  if (u.hostname === "web.archive.org" && archived) {
+    const inner = `${archived[1]}${u.search}`;
+    return canonicalizeUrl(
+      /^https?:/i.test(inner) ? inner : `https://${inner}`
+    );
+  }
+
+  u.protocol = "https:";
+  u.hostname = u.hostname
+    .toLowerCase()
+    .replace(/^www\./, "")
+    .replace(/\.$/, "");
+  u.hostname = HOST_MIRRORS[u.hostname] ?? u.hostname;
+  u.port = "";
+  u.username = "";
+  u.password = "";
+  u.hash = "";
+  u = rewrite(u);
+  u.hostname = HOST_MIRRORS[u.hostname] ?? u.hostname;
+  stripTrackingParams(u);
+  u.searchParams.sort();
+  u.pathname = u.pathname
+    .replace(/\/{2,}/g, "/")
+    .replace(/\/(index|default)\.(html?|php|aspx?)$/i, "/")
+    .replace(/(.)\/+$/, "$1");
+  return u.toString().replace(/\/$/, "").replace(/\/\?/, "?");
+};
@@ -0,0 +1,76 @@
+export type Clock = {
+  now: () => number;
+  setTimeout: (fn: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+};
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => {
+    const t = setTimeout(fn, ms);
+    if (typeof t.unref === "function") t.unref();
+    return t;
+  },
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+// A clock that only moves when told to. Timers fire from advance(), in due
+// order, so schedules can be stepped through without waiting.
+export class FakeClock implements Clock {
+  private t: number;
+  private timers = new Map<number, { at: number; fn: () => void }>();
+  private nextId = 1;
+
+  constructor(start: number | Date = 0) {
+    this.t = typeof start === "number" ? start : start.getTime();
+  }
+
+  now = () => this.t;
+
+  setTimeout = (fn: () => void, ms: number) => {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.t + Math.max(0, ms), fn });
+    return id;
+  };
+
+  clearTimeout = (handle: unknown) => {
+    this.timers.delete(handle as number);
+  };
+
+  set(time: number | Date) {
+    this.t = typeof time === "number" ? time : time.getTime();
+  }
+
+  advance(ms: number) {
+    const until = this.t + ms;
+    for (;;) {
+      let due: [number, { at: number; fn: () => void }] | null = null;
+      for (const entry of this.timers) {
+        if (entry[1].at <= until && (!due || entry[1].at < due[1].at))
+          due = entry;
+      }
+      if (!due) break;
+      this.timers.delete(due[0]);
+      this.t = due[1].at;
+      due[1].fn();
+    }
+    this.t = until;
+  }
+}
+
+let current: Clock = systemClock;
+
+// The time used for ages ("3h ago") and cache expiry. Swapped out by
+// useClock() so replayed runs and tests see a fixed "now".
+export const now = () => current.now();
+
+// Installs a process-wide clock and returns a function restoring the
+// previous one.
+export const useClock = (clock: Clock) => {
+  const previous = current;
+  current = clock;
+  return () => {
+    current = previous;
+  };
+};
@@ -0,0 +1,221 @@
+import { HackerNewsAPI, pMapSettled, stripHtml, timeAgo } from "./hn-api";
+import { throwIfAborted } from "./http";
+
+export type CommentNode = {
+  id: number | null;
+  by: string | null;
+  time: number | null;
+  time_ago: string | null;
+  text: string | null;
+  parent: number | null;
+  depth: number;
+  dead: boolean;
+  deleted: boolean;
+  kids_count: number;
+  children: CommentNode[];
+};
+
+export type CommentPage = {
+  // Roots of this page. On the first page these are top-level comments; a
+  // continuation page can start mid-thread, so check `parent` and `depth`.
+  comments: CommentNode[];
+  loaded: number;
+  next_cursor: string | null;
+  // The signal stopped loading early; next_cursor picks up from there.
+  partial: boolean;
+};
+
+// Where to resume a thread: suffixes of kids lists, deepest first. Each group
+// is [parent id, index of the next kid, depth of those kids].
+export type CommentCursor = {
+  root: number;
+  groups: [number, number, number][];
+};
+
+type Slot = {
+  id: number;
+  parent: number;
+  index: number;
+  depth: number;
+  // undefined until fetched.
+  item?: any;
+};
+
+export const encodeCommentCursor = (cursor: CommentCursor) =>
+  Buffer.from(JSON.stringify([cursor.root, cursor.groups])).toString(
+    "base64url"
+  );
+
+// Returns null for anything that isn't a cursor for this thread. A real
+// cursor has at most one group per depth level, so one with more than
+// `maxDepth + 1` groups is refused rather than costing a parent fetch each.
+export const parseCommentCursor = (
+  cursor: string,
+  rootId: number,
+  maxDepth: number
+): CommentCursor | null => {
+  try {
+    const [root, groups] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (
+      root !== rootId ||
+      !Array.isArray(groups) ||
+      !groups.length ||
+      groups.length > maxDepth + 1
+    )
+      return null;
+    const valid = groups.every(
+      (g: unknown) =>
+        Array.isArray(g) &&
+        g.length === 3 &&
+        g.every((n) => Number.isInteger(n) && n >= 0)
+    );
+    return valid ? { root, groups } : null;
+  } catch {
+    return null;
+  }
+};
+
+const kidsOf = (item: any): number[] =>
+  Array.isArray(item?.kids) ? item.kids : [];
+
+const toNode = (c: any, depth: number, strip: boolean): CommentNode => ({
+  id: c.id ?? null,
+  by: c.by ?? null,
+  time: c.time ?? null,
+  time_ago: timeAgo(c.time ?? null),
+  text: strip ? stripHtml(c.text) : c.text ?? null,
+  parent: c.parent ?? null,
+  depth,
+  dead: !!c.dead,
+  deleted: !!c.deleted,
+  kids_count: kidsOf(c).length,
+  children: [],
+});
+
+// Loads the first maxComments comments of a thread in HN's display order
+// (depth-first), but fetches them level by level: every round fetches, in
+// parallel, all not-yet-loaded ids that fall inside the first maxComments
+// positions. A round can fetch a few items that a deeper reply later pushes
+// out of the page; they stay in the item cache for the next page.
+//
+// When the signal fires, the page ends at the first comment that hadn't
+// arrived yet and next_cursor resumes from it.
+export const loadComments = async (
+  api: HackerNewsAPI,
+  root: any,
+  opts: {
+    maxDepth: number;
+    maxComments: number;
+    cursor?: CommentCursor | null;
+    stripHtml?: boolean;
+    concurrency?: number;
+    signal?: AbortSignal;
+  }
+): Promise<CommentPage> => {
+  const { maxDepth, maxComments, signal } = opts;
+  const strip = opts.stripHtml ?? true;
+  const concurrency = opts.concurrency ?? api.concurrency;
+  // A comment that fails to load is dropped, like a deleted one; one cut
+  // off by the signal stays unfetched (undefined) so the cursor covers it.
+  const fetchAll = async (ids: number[]) =>
+    (
+      await pMapSettled(
+        ids,
+        (id, _i, s) => api.getItem(id, { signal: s }),
+        concurrency,
+        signal
+      )
+    ).map((r) =>
+      r.status === "fulfilled"
+        ? r.value
+        : r.status === "rejected" && !signal?.aborted
+        ? null
+        : undefined
+    );
+
+  const groups: [number, number, number][] = opts.cursor?.groups ?? [
+    [root.id, 0, 0],
+  ];
+  const parentIds = [
+    ...new Set(groups.map(([p]) => p).filter((p) => p !== root.id)),
+  ];
+  const parentItems = await fetchAll(parentIds);
+  throwIfAborted(signal);
+  const parents = new Map<number, any>([[root.id, root]]);
+  parentIds.forEach((id, i) => parents.set(id, parentItems[i]));
+
+  let slots: Slot[] = groups.flatMap(([parent, from, depth]) =>
+    depth > maxDepth
+      ? []
+      : kidsOf(parents.get(parent))
+          .slice(from)
+          .map((id, i) => ({ id, parent, index: from + i, depth }))
+  );
+
+  for (;;) {
+    if (signal?.aborted) break;
+    const missing = slots
+      .slice(0, maxComments)
+      .filter((s) => s.item === undefined);
+    if (!missing.length) break;
+    const items = await fetchAll(missing.map((s) => s.id));
+    missing.forEach((s, i) => (s.item = items[i]));
+    const fetched = new Set(missing.filter((s) => s.item !== undefined));
+    // Drop what isn't a comment and splice each new comment's replies in
+    // right after it, so slots stay in display order.
+    slots = slots.flatMap((s) => {
+      if (!fetched.has(s)) return [s];
+      if (!s.item || s.item.type !== "comment") return [];
+      if (s.depth >= maxDepth) return [s];
+      return [
+        s,
+        ...kidsOf(s.item).map((id, index) => ({
+          id,
+          parent: s.id,
+          index,
+          depth: s.depth + 1,
+        })),
+      ];
+    });
+  }
+
+  const unfetched = slots.findIndex((s) => s.item === undefined);
+  const pageSize =
+    unfetched === -1 ? maxComments : Math.min(unfetched, maxComments);
+  const page = slots.slice(0, pageSize);
+  const nodes = new Map<number, CommentNode>();
+  const roots: CommentNode[] = [];
+  for (const s of page) {
+    const node = toNode(s.item, s.depth, strip);
+    nodes.set(s.id, node);
+    const parent = nodes.get(s.parent);
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  // The rest of the thread, minus replies to comments that are themselves
+  // past the page: those get re-expanded from their parent on resume.
+  const rest = slots.slice(pageSize);
+  const restIds = new Set(rest.map((s) => s.id));
+  const next: [number, number, number][] = [];
+  for (const s of rest) {
+    if (restIds.has(s.parent)) continue;
+    const last = next[next.length - 1];
+    if (!last || last[0] !== s.parent) next.push([s.parent, s.index, s.depth]);
+  }
+
+  return {
+    comments: roots,
+    loaded: page.length,
+    next_cursor: next.length
+      ? encodeCommentCursor({ root: root.id, groups: next })
+      : null,
+    partial: unfetched !== -1 && unfetched < maxComments,
+  };
+};
+
+// Depth-first list of a page's comments, for prompts that want a flat sample.
+export const flattenComments = (nodes: CommentNode[]): CommentNode[] =>
+  nodes.flatMap((n) => [n, ...flattenComments(n.children)]);
@@ -0,0 +1,302 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+// Runtime configuration: built-in defaults, overridden by an optional JSON
+// file (HN_CONFIG_FILE, same shape as the schema), overridden by individual
+// environment variables. Everything is validated once at startup so a typo
+// fails loudly instead of silently falling back to a default.
+
+export const DEFAULT_MODEL = "anthropic/claude-sonnet-4";
+export const DEFAULT_USER_AGENT = "hacker-tracker/1.0";
+// Page media types the article extractors can read. PDFs are often served as
+// octet-stream, so that passes too and is sniffed.
+export const DEFAULT_ARTICLE_CONTENT_TYPES = [
+  "text/html",
+  "application/xhtml+xml",
+  "application/pdf",
+  "application/octet-stream",
+  "text/*",
+];
+export const FIXTURE_MODES = ["off", "record", "replay"] as const;
+
+const positiveInt = z.coerce.number().int().min(1);
+const ms = z.coerce.number().int().min(0);
+const url = z.url({ protocol: /^https?$/ });
+// A JSON array, or comma-separated in an environment variable.
+const list = z.preprocess(
+  (v) =>
+    typeof v === "string"
+      ? v
+          .split(",")
+          .map((s) => s.trim())
+          .filter(Boolean)
+      : v,
+  z.array(z.string().min(1))
+);
+
+export const configSchema = z.strictObject({
+  models: z
+    .strictObject({
+      // Chat turns, including `/hn ask`.
+      chat: z.string().min(1).default(DEFAULT_MODEL),
+      // TLDRs, digests, discussion analysis and map-reduce notes.
+      summarize: z.string().min(1).default(DEFAULT_MODEL),
+    })
+    .prefault({}),
+  hn: z
+    .strictObject({
+      apiBaseUrl: url.default("https://hacker-news.firebaseio.com/v0"),
+      searchBaseUrl: url.default("https://hn.algolia.com/api/v1"),
+      // Repost lookups only; defaults to searchBaseUrl.
+      discussionsBaseUrl: url.optional(),
+      concurrency: positiveInt.max(32).default(12),
+      timeoutMs: positiveInt.default(5000),
+      topStoriesTtlMs: ms.default(2 * 60 * 1000),
+      itemTtlMs: ms.default(10 * 60 * 1000),
+      userTtlMs: ms.default(10 * 60 * 1000),
+      searchTtlMs: ms.default(60 * 1000),
+      // Persist the HN cache to this file instead of keeping it in memory.
+      cacheFile: z.string().min(1).optional(),
+      cacheMaxEntries: positiveInt.optional(),
+    })
+    .prefault({}),
+  http: z
+    .strictObject({
+      userAgent: z.string().min(1).default(DEFAULT_USER_AGENT),
+      timeoutMs: positiveInt.default(8000),
+      retries: z.coerce.number().int().min(0).max(10).default(2),
+      maxBytes: positiveInt.default(5 * 1024 * 1024),
+      perHostConcurrency: positiveInt.default(6),
+      // Minimum gap between request starts to one host.
+      perHostIntervalMs: ms.default(0),
+      maxRedirects: z.coerce.number().int().min(0).max(20).default(5),
+    })
+    .prefault({}),
+  articles: z
+    .strictObject({
+      cacheTtlMs: ms.default(30 * 60 * 1000),
+      staleTtlMs: ms.default(24 * 3600 * 1000),
+      cacheMaxEntries: positiveInt.default(200),
+      // http.perHostIntervalMs for article sites, which are someone else's
+      // servers.
+      perHostIntervalMs: ms.default(200),
+      // Domains never fetched, subdomains included.
+      denyDomains: list.default([]),
+      // When non-empty, only these domains (and subdomains) are fetched.
+      allowDomains: list.default([]),
+      // Accepted page media types; "text/*" matches any text type.
+      contentTypes: list.default(DEFAULT_ARTICLE_CONTENT_TYPES),
+    })
+    .prefault({}),
+  // How long one tool call may run before it returns what it has so far.
+  tools: z
+    .strictObject({
+      deadlineMs: positiveInt.default(45 * 1000),
+      // TLDRs and discussion analysis, which end in a model call.
+      summaryDeadlineMs: positiveInt.default(3 * 60 * 1000),
+    })
+    .prefault({}),
+  // Upper bounds for tool inputs. Each is at least the tool's default.
+  limits: z
+    .strictObject({
+      maxStories: positiveInt.min(10).default(30),
+      maxCardStories: positiveInt.min(5).default(15),
+      maxComments: positiveInt.min(200).default(500),
+      maxSearchHits: positiveInt.min(20).default(50),
+      // Comment tree depth for item details, discussion analysis and the API.
+      maxDepth: positiveInt.min(5).default(10),
+      maxTldrDepth: positiveInt.default(3),
+      maxTldrComments: positiveInt.min(10).default(100),
+      maxTldrArticleChars: positiveInt.min(2000).default(2000),
+      maxContentChars: positiveInt.min(1200).default(20000),
+      maxCommentChars: positiveInt.min(500).default(2000),
+      maxUserItems: positiveInt.min(10).default(30),
+      maxDiscussions: positiveInt.min(10).default(50),
+      maxSlashStories: positiveInt.min(5).default(10),
+      // HTTP API query bounds.
+      maxApiStories: positiveInt.min(30).default(100),
+      maxApiRuns: positiveInt.min(20).default(50),
+    })
+    .prefault({}),
+  // What a TLDR reads when nobody picked: the summarize_hn_tldr defaults,
+  // digests and the Summarize button.
+  tldr: z
+    .strictObject({
+      commentDepth: z.coerce.number().int().min(0).default(1),
+      comments: positiveInt.default(10),
+      articleChars: positiveInt.default(2000),
+      commentChars: positiveInt.default(500),
+    })
+    .prefault({}),
+  // The /hn slash command.
+  slash: z
+    .strictObject({
+      // Stories `/hn top` and `/hn search` show when no count is given.
+      stories: positiveInt.default(5),
+      // Slack drops responses slower than three seconds; past this, the
+      // reply is acknowledged and posted to response_url instead.
+      replyDeadlineMs: positiveInt.max(2900).default(2500),
+      // `/hn ask` runs the agent for at most this long and this many steps.
+      askDeadlineMs: positiveInt.default(2 * 60 * 1000),
+      askMaxSteps: positiveInt.default(10),
+    })
+    .prefault({}),
+  dataDir: z.string().min(1).default(".hn-data"),
+  // Offline runs: record HN and article responses, or replay them.
+  fixtures: z
+    .strictObject({
+      mode: z.enum(FIXTURE_MODES).default("off"),
+      dir: z.string().min(1).default(".hn-fixtures"),
+    })
+    .prefault({}),
+  slack: z
+    .strictObject({
+      signingSecret: z.string().min(1).optional(),
+    })
+    .prefault({}),
+  github: z
+    .strictObject({
+      // Sent to api.github.com only, for a higher rate limit.
+      token: z.string().min(1).optional(),
+    })
+    .prefault({}),
+  api: z
+    .strictObject({
+      // Required by the HTTP API and feeds when set; the digest routes are
+      // only served with one.
+      token: z.string().min(1).optional(),
+    })
+    .prefault({}),
+});
+
+export type Config = z.output<typeof configSchema>;
+
+// Environment variable -> config path.
+export const CONFIG_ENV: Record<string, string> = {
+  HN_CHAT_MODEL: "models.chat",
+  HN_SUMMARY_MODEL: "models.summarize",
+  HN_API_BASE_URL: "hn.apiBaseUrl",
+  HN_SEARCH_BASE_URL: "hn.searchBaseUrl",
+  HN_DISCUSSIONS_BASE_URL: "hn.discussionsBaseUrl",
+  HN_CONCURRENCY: "hn.concurrency",
+  HN_API_TIMEOUT_MS: "hn.timeoutMs",
+  HN_TOP_STORIES_TTL_MS: "hn.topStoriesTtlMs",
+  HN_ITEM_TTL_MS: "hn.itemTtlMs",
+  HN_USER_TTL_MS: "hn.userTtlMs",
+  HN_SEARCH_TTL_MS: "hn.searchTtlMs",
+  HN_CACHE_FILE: "hn.cacheFile",
+  HN_CACHE_MAX_ENTRIES: "hn.cacheMaxEntries",
+  HN_USER_AGENT: "http.userAgent",
+  HN_HTTP_TIMEOUT_MS: "http.timeoutMs",
+  HN_HTTP_RETRIES: "http.retries",
+  HN_HTTP_MAX_BYTES: "http.maxBytes",
+  HN_HTTP_PER_HOST_CONCURRENCY: "http.perHostConcurrency",
+  HN_HTTP_PER_HOST_INTERVAL_MS: "http.perHostIntervalMs",
+  HN_HTTP_MAX_REDIRECTS: "http.maxRedirects",
+  HN_ARTICLE_CACHE_TTL_MS: "articles.cacheTtlMs",
+  HN_ARTICLE_CACHE_STALE_TTL_MS: "articles.staleTtlMs",
+  HN_ARTICLE_CACHE_MAX_ENTRIES: "articles.cacheMaxEntries",
+  HN_ARTICLE_PER_HOST_INTERVAL_MS: "articles.perHostIntervalMs",
+  HN_ARTICLE_DENY_DOMAINS: "articles.denyDomains",
+  HN_ARTICLE_ALLOW_DOMAINS: "articles.allowDomains",
+  HN_ARTICLE_CONTENT_TYPES: "articles.contentTypes",
+  HN_TOOL_DEADLINE_MS: "tools.deadlineMs",
+  HN_SUMMARY_DEADLINE_MS: "tools.summaryDeadlineMs",
+  HN_MAX_STORIES: "limits.maxStories",
+  HN_MAX_CARD_STORIES: "limits.maxCardStories",
+  HN_MAX_COMMENTS: "limits.maxComments",
+  HN_MAX_SEARCH_HITS: "limits.maxSearchHits",
+  HN_MAX_DEPTH: "limits.maxDepth",
+  HN_MAX_TLDR_DEPTH: "limits.maxTldrDepth",
+  HN_MAX_TLDR_COMMENTS: "limits.maxTldrComments",
+  HN_MAX_TLDR_ARTICLE_CHARS: "limits.maxTldrArticleChars",
+  HN_MAX_CONTENT_CHARS: "limits.maxContentChars",
+  HN_MAX_COMMENT_CHARS: "limits.maxCommentChars",
+  HN_MAX_USER_ITEMS: "limits.maxUserItems",
+  HN_MAX_DISCUSSIONS: "limits.maxDiscussions",
+  HN_MAX_SLASH_STORIES: "limits.maxSlashStories",
+  HN_MAX_API_STORIES: "limits.maxApiStories",
+  HN_MAX_API_RUNS: "limits.maxApiRuns",
+  HN_TLDR_COMMENT_DEPTH: "tldr.commentDepth",
+  HN_TLDR_COMMENTS: "tldr.comments",
+  HN_TLDR_ARTICLE_CHARS: "tldr.articleChars",
+  HN_TLDR_COMMENT_CHARS: "tldr.commentChars",
+  HN_SLASH_STORIES: "slash.stories",
+  HN_SLASH_REPLY_DEADLINE_MS: "slash.replyDeadlineMs",
+  HN_ASK_DEADLINE_MS: "slash.askDeadlineMs",
+  HN_ASK_MAX_STEPS: "slash.askMaxSteps",
+  HN_DATA_DIR: "dataDir",
+  HN_FIXTURE_MODE: "fixtures.mode",
+  HN_FIXTURE_DIR: "fixtures.dir",
+  SLACK_SIGNING_SECRET: "slack.signingSecret",
+  GITHUB_TOKEN: "github.token",
+  HN_API_TOKEN: "api.token",
+};
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+const setPath = (target: Record<string, any>, path: string, value: string) => {
+  const keys = path.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof node[key] !== "object" || node[key] === null) node[key] = {};
+    node = node[key];
+  }
+  node[keys[keys.length - 1]] = value;
+};
+
+const readConfigFile = (path: string): Record<string, any> => {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (e) {
+    throw new ConfigError(
+      `Can't read config file ${path}: ${
+        e instanceof Error ? e.message : String(e)
+      }`
+    );
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed))
+      throw new Error("expected a JSON object");
+    return parsed;
+  } catch (e) {
+    throw new ConfigError(
+      `Config file ${path} is not valid: ${
+        e instanceof Error ? e.message : String(e)
+      }`
+    );
+  }
+};
+
+// Throws ConfigError naming every invalid setting and where it came from.
+export const loadConfig = (opts?: {
+  env?: Record<string, string | undefined>;
+  file?: string;
+}): Config => {
+  const env = opts?.env ?? process.env;
+  const file = opts?.file ?? env.HN_CONFIG_FILE;
+  const raw = file ? readConfigFile(file) : {};
+  const fromEnv = new Map<string, string>();
+  for (const [name, path] of Object.entries(CONFIG_ENV)) {
+    const value = env[name];
+    if (value === undefined || value === "") continue;
+    setPath(raw, path, value);
+    fromEnv.set(path, name);
+  }
+
+  const res = configSchema.safeParse(raw);
+  if (res.success) return res.data;
+  const problems = res.error.issues.map((issue) => {
+    const path = issue.path.join(".");
+    const source = fromEnv.get(path) ?? (file ? `${file}` : "defaults");
+    return `- ${path || "(root)"} (${source}): ${issue.message}`;
+  });
+  throw new ConfigError(`Invalid configuration:\n${problems.join("\n")}`);
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { nextCronRun, parseCron } from "./cron";
+
+describe("parseCron", () => {
+  it("runs the daily and weekly presets at 09:00", () => {
+    const from = new Date("2025-06-02T10:00:00Z"); // a Monday
+    expect(nextCronRun(parseCron("@daily"), from, "UTC")?.toISOString()).toBe(
+      "2025-06-03T09:00:00.000Z"
+    );
+    expect(nextCronRun(parseCron("@weekly"), from, "UTC")?.toISOString()).toBe(
+      "2025-06-09T09:00:00.000Z"
+    );
+  });
+
+  it("expands ranges, lists, steps and day names", () => {
+    const spec = parseCron("*/15 9-11 * * mon-wed,fri");
+    expect([...spec.minute]).toEqual([0, 15, 30, 45]);
+    expect([...spec.hour]).toEqual([9, 10, 11]);
+    expect([...spec.dow]).toEqual([1, 2, 3, 5]);
+    expect([...parseCron("0 9 * * fri-sun").dow]).toEqual([5, 6, 0]);
+  });
+
+  it("rejects ranges that run backwards", () => {
+    expect(() => parseCron("0 9 * * 5-1")).toThrow(
+      'Invalid day-of-week range "5-1"'
+    );
+    expect(() => parseCron("30-10 * * * *")).toThrow(
+      'Invalid minute range "30-10"'
+    );
+  });
+});
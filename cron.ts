@@ -0,0 +1,180 @@
+// Minimal five-field cron: "minute hour day-of-month month day-of-week".
+// Supports *, lists, ranges, steps, day names and the @hourly/@daily/
+// @weekdays/@weekly presets. Unlike Vixie cron, the daily and weekly presets
+// run at 09:00 rather than midnight, which suits a digest. Day-of-month and day-of-week are OR-ed when
+// both are restricted, as in Vixie cron.
+
+export type CronSpec = {
+  minute: Set<number>;
+  hour: Set<number>;
+  dom: Set<number>;
+  month: Set<number>;
+  dow: Set<number>;
+  domAny: boolean;
+  dowAny: boolean;
+};
+
+const PRESETS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 9 * * *",
+  "@weekdays": "0 9 * * 1-5",
+  "@weekly": "0 9 * * 1",
+};
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const parseField = (
+  field: string,
+  min: number,
+  max: number,
+  name: string
+): Set<number> => {
+  const out = new Set<number>();
+  const value = (s: string) => {
+    const day = DAY_NAMES.indexOf(s.toLowerCase());
+    // Number("") is 0, so an empty part ("0,,5" or "1-") must be caught here.
+    const n =
+      name === "day-of-week" && day >= 0
+        ? day
+        : /^\d+$/.test(s)
+        ? Number(s)
+        : NaN;
+    if (!Number.isInteger(n) || n < min || n > max) {
+      throw new Error(
+        `Invalid ${name} "${s}" (expected ${min}-${max}) in cron expression.`
+      );
+    }
+    return n;
+  };
+  for (const part of field.split(",")) {
+    const [range, stepStr] = part.split("/");
+    const step = stepStr === undefined ? 1 : Number(stepStr);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepStr}" in ${name}.`);
+    }
+    let lo = min;
+    let hi = max;
+    if (range !== "*") {
+      const [a, b] = range.split("-");
+      lo = value(a);
+      hi = b === undefined ? (stepStr === undefined ? lo : max) : value(b);
+      // "fri-sun": Sunday is also 7.
+      if (name === "day-of-week" && hi === 0 && lo > 0) hi = 7;
+      // Would match nothing, so the schedule would never run.
+      if (lo > hi) {
+        throw new Error(
+          `Invalid ${name} range "${range}": the start is after the end.`
+        );
+      }
+    }
+    for (let i = lo; i <= hi; i += step) out.add(i);
+  }
+  return out;
+};
+
+export const parseCron = (expr: string): CronSpec => {
+  const normalized = PRESETS[expr.trim().toLowerCase()] ?? expr.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression "${expr}" must have 5 fields (minute hour day month weekday), e.g. "0 9 * * 1-5".`
+    );
+  }
+  const [minute, hour, dom, month, dow] = fields;
+  // Both 0 and 7 mean Sunday.
+  const dowSet = new Set(
+    [...parseField(dow, 0, 7, "day-of-week")].map((d) => d % 7)
+  );
+  return {
+    minute: parseField(minute, 0, 59, "minute"),
+    hour: parseField(hour, 0, 23, "hour"),
+    dom: parseField(dom, 1, 31, "day-of-month"),
+    month: parseField(month, 1, 12, "month"),
+    dow: dowSet,
+    domAny: dom === "*",
+    dowAny: dow === "*",
+  };
+};
+
+type Parts = {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+};
+
+const partsIn = (date: Date, timeZone?: string): Parts => {
+  if (!timeZone || timeZone === "UTC") {
+    return {
+      minute: date.getUTCMinutes(),
+      hour: date.getUTCHours(),
+      day: date.getUTCDate(),
+      month: date.getUTCMonth() + 1,
+      weekday: date.getUTCDay(),
+    };
+  }
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    minute: Number(get("minute")),
+    hour: Number(get("hour")),
+    day: Number(get("day")),
+    month: Number(get("month")),
+    weekday: DAY_NAMES.indexOf(get("weekday").toLowerCase()),
+  };
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const cronMatches = (spec: CronSpec, date: Date, timeZone?: string) => {
+  const p = partsIn(date, timeZone);
+  if (!spec.minute.has(p.minute) || !spec.hour.has(p.hour)) return false;
+  if (!spec.month.has(p.month)) return false;
+  const domOk = spec.dom.has(p.day);
+  const dowOk = spec.dow.has(p.weekday);
+  if (spec.domAny || spec.dowAny) return domOk && dowOk;
+  return domOk || dowOk;
+};
+
+// Next matching minute strictly after `from`, searching up to `horizonDays`.
+export const nextCronRun = (
+  spec: CronSpec,
+  from: Date,
+  timeZone?: string,
+  horizonDays = 35
+): Date | null => {
+  const t = new Date(from.getTime());
+  t.setUTCSeconds(0, 0);
+  for (let i = 0; i < horizonDays * 24 * 60; i++) {
+    t.setTime(t.getTime() + 60 * 1000);
+    if (cronMatches(spec, t, timeZone)) return new Date(t.getTime());
+  }
+  return null;
+};
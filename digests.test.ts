@@ -0,0 +1,103 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { LanguageModel } from "ai";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ArticleCache } from "./article-cache";
+import { DigestScheduler, DigestStore, type DigestInput } from "./digests";
+import { HackerNewsAPI } from "./hn-api";
+import { HttpClient } from "./http";
+import { FixtureTransport } from "./record-replay";
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/hn", import.meta.url));
+
+let dataDir: string;
+let store: DigestStore;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), "digests-"));
+  store = new DigestStore({ path: join(dataDir, "digests.json") });
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+const digest = (channel: string, slack: unknown): DigestInput => ({
+  channel,
+  schedule: "0 9 * * 1-5",
+  timezone: "UTC",
+  feed: "top",
+  count: 5,
+  include_article: false,
+  include_comments: false,
+  skip_covered: true,
+  created_by: null,
+  slack,
+});
+
+describe("DigestStore.list", () => {
+  it("only lists what the asking message can manage", () => {
+    const ours = store.create(digest("C1", { team: "T1", channel: "C1" }));
+    const theirs = store.create(digest("C1", { team: "T2", channel: "C1" }));
+
+    expect(store.list({ channel: "C1" }).map((d) => d.id)).toEqual([
+      ours.id,
+      theirs.id,
+    ]);
+    expect(
+      store
+        .list({ channel: "C1", from: { team: "T1", channel: "C1" } })
+        .map((d) => d.id)
+    ).toEqual([ours.id]);
+    expect(
+      store.list({ channel: "C1", from: { team: "T2", channel: "C7" } })
+    ).toEqual([]);
+  });
+});
+
+// Writes the same TLDR for every digest.
+const model: Exclude<LanguageModel, string> = {
+  specificationVersion: "v2",
+  provider: "test",
+  modelId: "mock",
+  supportedUrls: {},
+  doGenerate: async () => ({
+    content: [{ type: "text", text: "- *Today on HN*" }],
+    finishReason: "stop",
+    usage: { inputTokens: 10, outputTokens: 10, totalTokens: 20 },
+    warnings: [],
+  }),
+  doStream: async () => {
+    throw new Error("not used");
+  },
+};
+
+describe("DigestScheduler.run", () => {
+  it("only covers the stories that made it into the digest", async () => {
+    // The front page is 101, 102 and 103; 102 fails to load.
+    const transport = new FixtureTransport({ mode: "replay", dir: FIXTURES });
+    const http = new HttpClient({
+      retries: 0,
+      fetch: (url, init) =>
+        url.endsWith("/item/102.json")
+          ? Promise.resolve(new Response("", { status: 500 }))
+          : transport.fetch(url, init),
+    });
+    const api = new HackerNewsAPI({ http });
+    const scheduler = new DigestScheduler({
+      store,
+      api,
+      articles: new ArticleCache({ http }),
+      post: async () => {},
+      model,
+    });
+    const { id } = store.create(digest("C1", { team: "T1", channel: "C1" }));
+
+    const run = await scheduler.run(id);
+
+    expect(run?.story_ids).toEqual([101, 103]);
+    expect(Object.keys(store.get(id)!.covered)).toEqual(["101", "103"]);
+  });
+});
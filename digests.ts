@@ -0,0 +1,324 @@
+import { randomUUID } from "node:crypto";
+import type { LanguageModel } from "ai";
+import { now as clockNow, systemClock, type Clock } from "./clock";
+import {
+  cronMatches,
+  isValidTimeZone,
+  nextCronRun,
+  parseCron,
+  type CronSpec,
+} from "./cron";
+import { ArticleCache } from "./article-cache";
+import { HackerNewsAPI, type HNFeed, type NormalizedItem } from "./hn-api";
+import { JsonFile, dataPath } from "./json-file";
+import { managedFrom } from "./subscriptions";
+import {
+  COLLECT_SHARE,
+  DEFAULT_TLDR_READ,
+  collectTldrStories,
+  generateTldr,
+  tldrReadOptions,
+  type TldrReadLimits,
+  type TldrStory,
+} from "./tldr";
+
+export type Digest = {
+  id: string;
+  channel: string;
+  schedule: string;
+  timezone: string;
+  feed: HNFeed;
+  count: number;
+  include_article: boolean;
+  include_comments: boolean;
+  // Skip stories an earlier run of this digest already covered.
+  skip_covered: boolean;
+  created_at: number;
+  created_by: string | null;
+  last_run_at: number | null;
+  // story id -> unix ms of the run that covered it
+  covered: Record<string, number>;
+  // Slack message metadata captured at creation, used to post later.
+  slack: unknown;
+};
+
+export type DigestInput = Omit<
+  Digest,
+  "id" | "created_at" | "last_run_at" | "covered"
+>;
+
+export type DigestRun = {
+  digest_id: string;
+  story_ids: number[];
+  stories: TldrStory[];
+  text: string;
+};
+
+// What the HTTP API and feeds serve: a finished run without the per-story
+// article and comment samples.
+export type StoredDigestRun = {
+  digest_id: string;
+  feed: HNFeed;
+  // unix ms
+  at: number;
+  // Slack mrkdwn, as posted.
+  text: string;
+  stories: NormalizedItem[];
+};
+
+const COVERED_MEMORY_MS = 30 * 24 * 3600 * 1000;
+const MAX_STORED_RUNS = 50;
+
+export class DigestStore {
+  private file: JsonFile<{ digests: Digest[]; runs?: StoredDigestRun[] }>;
+
+  constructor(opts?: { path?: string }) {
+    this.file = new JsonFile(opts?.path ?? dataPath("digests.json"), () => ({
+      digests: [] as Digest[],
+      runs: [] as StoredDigestRun[],
+    }));
+  }
+
+  // `from` is Slack message metadata; when given, only digests that can be
+  // managed from that message are listed.
+  list(filter?: { channel?: string; from?: unknown }): Digest[] {
+    return this.file.data.digests.filter(
+      (d) =>
+        (!filter?.channel || d.channel === filter.channel) &&
+        (filter?.from === undefined || managedFrom(d, filter.from))
+    );
+  }
+
+  get(id: string): Digest | null {
+    return this.file.data.digests.find((d) => d.id === id) ?? null;
+  }
+
+  create(input: DigestInput): Digest {
+    parseCron(input.schedule);
+    if (!isValidTimeZone(input.timezone)) {
+      throw new Error(`Unknown time zone "${input.timezone}".`);
+    }
+    const digest: Digest = {
+      ...input,
+      id: randomUUID().slice(0, 8),
+      created_at: clockNow(),
+      last_run_at: null,
+      covered: {},
+    };
+    this.file.data.digests.push(digest);
+    this.file.save();
+    return digest;
+  }
+
+  delete(id: string): boolean {
+    const before = this.file.data.digests.length;
+    this.file.data.digests = this.file.data.digests.filter((d) => d.id !== id);
+    const removed = this.file.data.digests.length !== before;
+    if (removed) this.file.save();
+    return removed;
+  }
+
+  recordRun(id: string, storyIds: number[], at: number) {
+    const digest = this.get(id);
+    if (!digest) return;
+    digest.last_run_at = at;
+    for (const sid of storyIds) digest.covered[sid] = at;
+    for (const [sid, t] of Object.entries(digest.covered)) {
+      if (at - t > COVERED_MEMORY_MS) delete digest.covered[sid];
+    }
+    this.file.save();
+  }
+
+  saveRun(run: StoredDigestRun) {
+    const runs = [run, ...(this.file.data.runs ?? [])];
+    this.file.data.runs = runs.slice(0, MAX_STORED_RUNS);
+    this.file.save();
+  }
+
+  // Newest first.
+  runs(filter?: { digestId?: string; limit?: number }): StoredDigestRun[] {
+    return (this.file.data.runs ?? [])
+      .filter((r) => !filter?.digestId || r.digest_id === filter.digestId)
+      .slice(0, filter?.limit ?? MAX_STORED_RUNS);
+  }
+}
+
+export const nextDigestRun = (digest: Digest, from = new Date(clockNow())) =>
+  nextCronRun(parseCron(digest.schedule), from, digest.timezone);
+
+const toItem = (s: TldrStory): NormalizedItem => ({
+  id: s.id,
+  title: s.title,
+  by: s.by,
+  score: s.score,
+  time: s.time,
+  time_ago: s.time_ago,
+  url: s.url,
+  type: s.type,
+  text: s.text,
+  comments_count: s.comments_count,
+  comments_url: s.comments_url,
+});
+
+// Checks every digest once a minute and runs the ones whose schedule
+// matches. Each run reuses the summarize_hn_tldr pipeline.
+export class DigestScheduler {
+  private store: DigestStore;
+  private api: HackerNewsAPI;
+  private articles: ArticleCache;
+  private post: (digest: Digest, run: DigestRun) => Promise<void>;
+  private model: LanguageModel | undefined;
+  private deadlineMs: number;
+  private tldr: TldrReadLimits;
+  private clock: Clock;
+  private timer: unknown = null;
+  private running = new Set<string>();
+  private specs = new Map<string, CronSpec>();
+
+  constructor(opts: {
+    store: DigestStore;
+    api: HackerNewsAPI;
+    articles: ArticleCache;
+    post: (digest: Digest, run: DigestRun) => Promise<void>;
+    // Model for the TLDR text.
+    model?: LanguageModel;
+    // How long one run may take, loading and summarizing included.
+    deadlineMs?: number;
+    tldr?: TldrReadLimits;
+    clock?: Clock;
+  }) {
+    this.store = opts.store;
+    this.api = opts.api;
+    this.articles = opts.articles;
+    this.post = opts.post;
+    this.model = opts.model;
+    this.deadlineMs = opts.deadlineMs ?? 3 * 60 * 1000;
+    this.tldr = opts.tldr ?? DEFAULT_TLDR_READ;
+    this.clock = opts.clock ?? systemClock;
+  }
+
+  start() {
+    if (this.timer) return;
+    const schedule = () => {
+      // Fire just after the minute boundary.
+      const delay = 60 * 1000 - (this.clock.now() % (60 * 1000)) + 500;
+      this.timer = this.clock.setTimeout(() => {
+        // The next minute is scheduled first so a slow run can't delay it;
+        // `running` keeps a digest from overlapping itself.
+        schedule();
+        this.tick(new Date(this.clock.now())).catch(() => undefined);
+      }, delay);
+    };
+    schedule();
+  }
+
+  stop() {
+    if (this.timer) this.clock.clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  async tick(now: Date) {
+    const minute = Math.floor(now.getTime() / 60000);
+    const due = this.store.list().filter((d) => {
+      if (d.last_run_at && Math.floor(d.last_run_at / 60000) === minute)
+        return false;
+      try {
+        return cronMatches(this.spec(d.schedule), now, d.timezone);
+      } catch {
+        return false;
+      }
+    });
+    await Promise.all(
+      due.map((d) => this.runAndPost(d.id).catch(() => undefined))
+    );
+  }
+
+  async runAndPost(id: string): Promise<DigestRun | null> {
+    if (this.running.has(id)) return null;
+    this.running.add(id);
+    try {
+      const run = await this.run(id, {
+        signal: AbortSignal.timeout(this.deadlineMs),
+      });
+      if (!run) return null;
+      const digest = this.store.get(id);
+      if (digest) await this.post(digest, run);
+      return run;
+    } finally {
+      this.running.delete(id);
+    }
+  }
+
+  // A run the signal cuts off before the TLDR is written throws and is not
+  // recorded, so the stories stay uncovered for the next one. Likewise only
+  // stories that loaded and went into the TLDR count as covered; one that
+  // failed to load is tried again next time.
+  async run(
+    id: string,
+    opts?: { signal?: AbortSignal }
+  ): Promise<DigestRun | null> {
+    const digest = this.store.get(id);
+    if (!digest) return null;
+
+    const signal = opts?.signal;
+    const feed = await this.api.getStories(digest.feed, { signal });
+    const fresh = digest.skip_covered
+      ? feed.filter((sid) => !digest.covered[sid])
+      : feed;
+    const ids = fresh.slice(0, digest.count);
+    const at = this.clock.now();
+
+    if (!ids.length) {
+      this.store.recordRun(id, [], at);
+      return {
+        digest_id: id,
+        story_ids: [],
+        stories: [],
+        text: `Nothing new in the ${digest.feed} feed since the last digest.`,
+      };
+    }
+
+    const { stories } = await collectTldrStories(
+      { api: this.api, articles: this.articles },
+      ids,
+      {
+        include_article: digest.include_article,
+        include_comments: digest.include_comments,
+        ...tldrReadOptions(this.tldr),
+        signal: this.collectSignal(signal),
+      }
+    );
+    const text = await generateTldr(stories, "slack", {
+      model: this.model,
+      signal,
+    });
+    const posted = stories.flatMap((s) => (s.id === null ? [] : [s.id]));
+    this.store.recordRun(id, posted, at);
+    this.store.saveRun({
+      digest_id: id,
+      feed: digest.feed,
+      at,
+      text,
+      stories: stories.map(toItem),
+    });
+    return { digest_id: id, story_ids: posted, stories, text };
+  }
+
+  // Stops loading early enough to leave the model time to write.
+  private collectSignal(signal: AbortSignal | undefined) {
+    if (!signal) return undefined;
+    return AbortSignal.any([
+      signal,
+      AbortSignal.timeout(Math.round(this.deadlineMs * COLLECT_SHARE)),
+    ]);
+  }
+
+  private spec(schedule: string) {
+    let spec = this.specs.get(schedule);
+    if (!spec) {
+      spec = parseCron(schedule);
+      this.specs.set(schedule, spec);
+    }
+    return spec;
+  }
+}
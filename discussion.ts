@@ -0,0 +1,308 @@
+import { generateObject, type LanguageModel } from "ai";
+import { z } from "zod";
+import {
+  flattenComments,
+  loadComments,
+  type CommentNode,
+  type CommentPage,
+} from "./comments";
+import { DEFAULT_MODEL } from "./config";
+import {
+  HackerNewsAPI,
+  hnItemUrl,
+  normalizeItem,
+  type NormalizedItem,
+} from "./hn-api";
+
+export type Sentiment = "positive" | "negative" | "mixed" | "neutral";
+export type Stance =
+  | "supportive"
+  | "critical"
+  | "mixed"
+  | "neutral"
+  | "off_topic";
+
+export type CommentRef = {
+  id: number;
+  by: string | null;
+  permalink: string;
+  excerpt: string;
+};
+
+export type DiscussionTheme = {
+  title: string;
+  summary: string;
+  sentiment: Sentiment;
+  comments: CommentRef[];
+};
+
+export type Subthread = {
+  root_id: number;
+  permalink: string;
+  by: string | null;
+  replies: number;
+  max_depth: number;
+  participants: number;
+  back_and_forth_chains: number;
+  stance: Stance | null;
+  summary: string | null;
+};
+
+// A run of replies alternating between the same two people.
+export type ControversyMarker = {
+  subthread_id: number;
+  participants: [string, string];
+  length: number;
+  from_id: number;
+  to_id: number;
+  permalink: string;
+};
+
+export type Participant = {
+  by: string;
+  comments: number;
+  subthreads: number;
+};
+
+export type DiscussionAnalysis = {
+  item: NormalizedItem;
+  analyzed_comments: number;
+  total_comments: number | null;
+  // More comments exist than were analyzed (max_comments or max_depth).
+  truncated: boolean;
+  // The signal cut loading or the model call short; the structural parts
+  // cover what was loaded, and overall/themes are empty if the model didn't
+  // finish.
+  partial: boolean;
+  overall: { sentiment: Sentiment; summary: string } | null;
+  themes: DiscussionTheme[];
+  subthreads: Subthread[];
+  controversy: ControversyMarker[];
+  participants: Participant[];
+  dead_or_deleted: { dead: number; deleted: number; share: number };
+};
+
+// Chains shorter than this are ordinary replies, not an argument.
+const MIN_CHAIN = 4;
+
+const excerpt = (text: string | null, max = 200) => {
+  const t = (text ?? "").replace(/\s+/g, " ").trim();
+  return t.length > max ? `${t.slice(0, max - 1)}…` : t;
+};
+
+// Longest alternating two-person chains, one per pair and subthread, found
+// by walking each root-to-leaf path.
+const findChains = (root: CommentNode): ControversyMarker[] => {
+  const best = new Map<string, ControversyMarker>();
+  const walk = (node: CommentNode, path: CommentNode[]) => {
+    const here = [...path, node];
+    let start = here.length - 1;
+    const a = node.by;
+    const b = here[start - 1]?.by;
+    if (a && b && a !== b) {
+      while (
+        start > 0 &&
+        here[start - 1].by === (here[start].by === a ? b : a)
+      ) {
+        start--;
+      }
+      const length = here.length - start;
+      const key = [a, b].sort().join("\u0000");
+      if (length >= MIN_CHAIN && length > (best.get(key)?.length ?? 0)) {
+        best.set(key, {
+          subthread_id: root.id!,
+          participants: [here[start].by!, here[start + 1].by!],
+          length,
+          from_id: here[start].id!,
+          to_id: node.id!,
+          permalink: hnItemUrl(here[start].id!),
+        });
+      }
+    }
+    for (const c of node.children) walk(c, here);
+  };
+  walk(root, []);
+  return [...best.values()];
+};
+
+// Everything that can be measured without a model: subthread shape, chains,
+// participants and the dead/deleted share.
+export const discussionStats = (page: CommentPage) => {
+  const all = flattenComments(page.comments);
+  const subthreads: Subthread[] = [];
+  const controversy: ControversyMarker[] = [];
+  const activity = new Map<string, { comments: number; subthreads: number }>();
+
+  for (const root of page.comments) {
+    if (root.id == null) continue;
+    const nodes = flattenComments([root]);
+    const people = new Set(nodes.map((n) => n.by).filter(Boolean) as string[]);
+    const chains = findChains(root);
+    controversy.push(...chains);
+    for (const n of nodes) {
+      if (!n.by) continue;
+      const a = activity.get(n.by) ?? { comments: 0, subthreads: 0 };
+      a.comments++;
+      activity.set(n.by, a);
+    }
+    for (const p of people) activity.get(p)!.subthreads++;
+    subthreads.push({
+      root_id: root.id,
+      permalink: hnItemUrl(root.id),
+      by: root.by,
+      replies: nodes.length - 1,
+      max_depth: Math.max(...nodes.map((n) => n.depth - root.depth)),
+      participants: people.size,
+      back_and_forth_chains: chains.length,
+      stance: null,
+      summary: null,
+    });
+  }
+
+  const dead = all.filter((c) => c.dead).length;
+  const deleted = all.filter((c) => c.deleted).length;
+  return {
+    comments: all,
+    subthreads,
+    controversy: controversy.sort((x, y) => y.length - x.length),
+    participants: [...activity]
+      .map(([by, a]) => ({ by, ...a }))
+      .sort((x, y) => y.comments - x.comments || y.subthreads - x.subthreads)
+      .slice(0, 10),
+    dead_or_deleted: {
+      dead,
+      deleted,
+      share: all.length
+        ? Math.round(((dead + deleted) / all.length) * 1000) / 1000
+        : 0,
+    },
+  };
+};
+
+const SENTIMENTS = ["positive", "negative", "mixed", "neutral"] as const;
+const STANCES = [
+  "supportive",
+  "critical",
+  "mixed",
+  "neutral",
+  "off_topic",
+] as const;
+
+const analysisSchema = z.object({
+  overall: z.object({
+    sentiment: z.enum(SENTIMENTS),
+    summary: z.string().describe("Two or three sentences."),
+  }),
+  themes: z
+    .array(
+      z.object({
+        title: z.string(),
+        summary: z.string(),
+        sentiment: z.enum(SENTIMENTS),
+        comment_ids: z
+          .array(z.number().int())
+          .describe("Ids of 1-3 comments that best represent the theme."),
+      })
+    )
+    .max(8),
+  subthreads: z.array(
+    z.object({
+      root_id: z.number().int(),
+      stance: z
+        .enum(STANCES)
+        .describe("The subthread's stance toward the submission."),
+      summary: z.string().describe("One sentence."),
+    })
+  ),
+});
+
+export const analyzeDiscussion = async (
+  api: HackerNewsAPI,
+  item: any,
+  opts: {
+    maxDepth: number;
+    maxComments: number;
+    maxCommentChars: number;
+    model?: LanguageModel;
+    signal?: AbortSignal;
+    // Stops comment loading earlier than `signal`, leaving time for the model.
+    loadSignal?: AbortSignal;
+  }
+): Promise<DiscussionAnalysis> => {
+  const page: CommentPage = Array.isArray(item?.kids)
+    ? await loadComments(api, item, {
+        maxDepth: opts.maxDepth,
+        maxComments: opts.maxComments,
+        signal: opts.loadSignal ?? opts.signal,
+      })
+    : { comments: [], loaded: 0, next_cursor: null, partial: false };
+  const stats = discussionStats(page);
+  const total = typeof item?.descendants === "number" ? item.descendants : null;
+  const base = {
+    item: normalizeItem(item),
+    analyzed_comments: page.loaded,
+    total_comments: total,
+    truncated: page.next_cursor !== null || (total ?? 0) > page.loaded,
+    partial: page.partial,
+    subthreads: stats.subthreads,
+    controversy: stats.controversy,
+    participants: stats.participants,
+    dead_or_deleted: stats.dead_or_deleted,
+  };
+  const readable = stats.comments.filter((c) => c.text && c.id != null);
+  if (!readable.length) return { ...base, overall: null, themes: [] };
+
+  // The tree goes to the model as indented lines, so reply structure
+  // survives without the overhead of nested JSON.
+  const lines = readable.map(
+    (c) =>
+      `${"  ".repeat(c.depth)}[${c.id}] ${c.by ?? "unknown"}: ${excerpt(
+        c.text,
+        opts.maxCommentChars
+      )}`
+  );
+  let object: z.output<typeof analysisSchema>;
+  try {
+    ({ object } = await generateObject({
+      model: opts.model ?? DEFAULT_MODEL,
+      schema: analysisSchema,
+      system: `You analyze Hacker News discussions. Comments are given as an indented tree: indentation is reply depth, [id] is the comment id.
+- Identify the main themes and cite comment ids that represent each one. Only use ids that appear in the input.
+- For every top-level comment (no indentation), give the stance of its whole subthread toward the submission.
+- Be neutral and factual; avoid speculation.`,
+      prompt: `Submission: ${item?.title ?? "(untitled)"}${
+        item?.url ? ` (${item.url})` : ""
+      }\n\n${lines.join("\n")}`,
+      abortSignal: opts.signal,
+    }));
+  } catch (e) {
+    if (!opts.signal?.aborted) throw e;
+    return { ...base, partial: true, overall: null, themes: [] };
+  }
+
+  const byId = new Map(readable.map((c) => [c.id!, c]));
+  const stances = new Map(object.subthreads.map((s) => [s.root_id, s]));
+  return {
+    ...base,
+    overall: object.overall,
+    themes: object.themes.map((t) => ({
+      title: t.title,
+      summary: t.summary,
+      sentiment: t.sentiment,
+      comments: t.comment_ids
+        .map((id) => byId.get(id))
+        .filter((c): c is CommentNode => !!c)
+        .map((c) => ({
+          id: c.id!,
+          by: c.by,
+          permalink: hnItemUrl(c.id!),
+          excerpt: excerpt(c.text),
+        })),
+    })),
+    subthreads: stats.subthreads.map((s) => ({
+      ...s,
+      stance: stances.get(s.root_id)?.stance ?? null,
+      summary: stances.get(s.root_id)?.summary ?? null,
+    })),
+  };
+};
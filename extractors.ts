@@ -0,0 +1,276 @@
+import { parse } from "node-html-parser";
+import type {
+  ContentExtractor,
+  ExtractedContent,
+  ExtractorRegistry,
+  UrlExtractor,
+} from "./article";
+import { extractPdfText, isPdf } from "./pdf-text";
+import { articleMetadata, extractArticle } from "./readability";
+
+const GITHUB_API = "https://api.github.com";
+const ARXIV_API = "https://export.arxiv.org/api/query";
+
+// First path segments on github.com that are not user or org names.
+const GITHUB_RESERVED = new Set([
+  "about",
+  "apps",
+  "collections",
+  "customer-stories",
+  "enterprise",
+  "events",
+  "explore",
+  "features",
+  "login",
+  "marketplace",
+  "new",
+  "notifications",
+  "orgs",
+  "pricing",
+  "pulls",
+  "search",
+  "settings",
+  "sponsors",
+  "topics",
+  "trending",
+]);
+
+const githubHeaders = (accept: string, token?: string) => ({
+  Accept: accept,
+  "X-GitHub-Api-Version": "2022-11-28",
+  ...(token ? { Authorization: `Bearer ${token}` } : {}),
+});
+
+const githubTarget = (url: URL) => {
+  if (url.hostname !== "github.com" && url.hostname !== "www.github.com")
+    return null;
+  const [owner, repo, kind, num] = url.pathname.split("/").filter(Boolean);
+  if (!owner || !repo || GITHUB_RESERVED.has(owner.toLowerCase())) return null;
+  const name = repo.replace(/\.git$/, "");
+  if ((kind === "issues" || kind === "pull") && /^\d+$/.test(num ?? "")) {
+    return { owner, repo: name, number: Number(num) };
+  }
+  return { owner, repo: name, number: null };
+};
+
+// The token only goes to api.github.com, for its higher rate limit.
+export const githubExtractor = (opts?: { token?: string }): UrlExtractor => ({
+  name: "github",
+  match: (url) => githubTarget(url) !== null,
+  extract: async (url, http) => {
+    const t = githubTarget(url)!;
+    const base = `${GITHUB_API}/repos/${t.owner}/${t.repo}`;
+
+    if (t.number !== null) {
+      // The issues endpoint serves pull requests too.
+      const issue = await http.getJSON<any>(`${base}/issues/${t.number}`, {
+        headers: githubHeaders("application/vnd.github+json", opts?.token),
+      });
+      const kind = issue.pull_request ? "Pull request" : "Issue";
+      const text = [
+        `# ${kind} #${issue.number}: ${issue.title}`,
+        `State: ${issue.state}${
+          issue.pull_request?.merged_at ? " (merged)" : ""
+        }. Comments: ${issue.comments ?? 0}. Labels: ${
+          (issue.labels ?? []).map((l: any) => l.name).join(", ") || "none"
+        }.`,
+        issue.body ?? "",
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+      return {
+        text,
+        metadata: articleMetadata(
+          {
+            canonical_url: issue.html_url ?? url.toString(),
+            title: issue.title ?? null,
+            author: issue.user?.login ?? null,
+            published_at: issue.created_at ?? null,
+            site_name: "GitHub",
+          },
+          text
+        ),
+        details: {
+          kind: issue.pull_request ? "pull_request" : "issue",
+          state: issue.state,
+          comments: issue.comments ?? 0,
+          repository: `${t.owner}/${t.repo}`,
+        },
+      };
+    }
+
+    const repo = await http.getJSON<any>(base, {
+      headers: githubHeaders("application/vnd.github+json", opts?.token),
+    });
+    let readme = "";
+    try {
+      readme = (
+        await http.getText(`${base}/readme`, {
+          headers: githubHeaders("application/vnd.github.raw", opts?.token),
+          retries: 0,
+        })
+      ).text;
+    } catch {
+      // Repos without a README still have a description worth returning.
+    }
+    const text = [
+      `# ${repo.full_name}`,
+      repo.description ?? "",
+      `Stars: ${repo.stargazers_count ?? 0}. Language: ${
+        repo.language ?? "unknown"
+      }. Topics: ${(repo.topics ?? []).join(", ") || "none"}.`,
+      readme,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    return {
+      text,
+      metadata: articleMetadata(
+        {
+          canonical_url: repo.html_url ?? url.toString(),
+          title: repo.full_name ?? null,
+          author: repo.owner?.login ?? null,
+          published_at: repo.created_at ?? null,
+          site_name: "GitHub",
+          description: repo.description ?? null,
+        },
+        text
+      ),
+      details: {
+        kind: "repository",
+        stars: repo.stargazers_count ?? 0,
+        forks: repo.forks_count ?? 0,
+        language: repo.language ?? null,
+        topics: repo.topics ?? [],
+        pushed_at: repo.pushed_at ?? null,
+        archived: !!repo.archived,
+      },
+    };
+  },
+});
+
+const arxivId = (url: URL) => {
+  if (!/(^|\.)arxiv\.org$/.test(url.hostname)) return null;
+  const m = url.pathname.match(
+    /^\/(?:abs|pdf|html)\/([a-z-]+(?:\.[A-Z]{2})?\/\d{7}|\d{4}\.\d{4,5})(v\d+)?/i
+  );
+  return m ? `${m[1]}${m[2] ?? ""}` : null;
+};
+
+export const arxivExtractor: UrlExtractor = {
+  name: "arxiv",
+  match: (url) => arxivId(url) !== null,
+  extract: async (url, http) => {
+    const id = arxivId(url)!;
+    const { text: xml } = await http.getText(
+      `${ARXIV_API}?id_list=${encodeURIComponent(id)}`
+    );
+    const entry = parse(xml).querySelector("entry");
+    const title = entry?.querySelector("title")?.textContent;
+    const summary = entry?.querySelector("summary")?.textContent;
+    if (!entry || !title || !summary) return null;
+    const clean = (s: string) => s.replace(/\s+/g, " ").trim();
+    const authors = entry
+      .querySelectorAll("author name")
+      .map((a) => clean(a.textContent));
+    const categories = entry
+      .querySelectorAll("category")
+      .map((c) => c.getAttribute("term"))
+      .filter((c): c is string => !!c);
+    const text = [
+      `# ${clean(title)}`,
+      `Authors: ${authors.join(", ")}`,
+      `Abstract: ${clean(summary)}`,
+    ].join("\n\n");
+    return {
+      text,
+      metadata: articleMetadata(
+        {
+          canonical_url: `https://arxiv.org/abs/${id}`,
+          title: clean(title),
+          author: authors.join(", ") || null,
+          published_at: entry.querySelector("published")?.textContent ?? null,
+          site_name: "arXiv",
+          language: "en",
+          description: clean(summary),
+        },
+        text
+      ),
+      details: {
+        arxiv_id: id,
+        authors,
+        categories,
+        updated_at: entry.querySelector("updated")?.textContent ?? null,
+        pdf_url: `https://arxiv.org/pdf/${id}`,
+      },
+    };
+  },
+};
+
+export const pdfExtractor: ContentExtractor = {
+  name: "pdf",
+  match: (contentType, res) =>
+    contentType === "application/pdf" || isPdf(res.body),
+  extract: (res) => {
+    const pdf = extractPdfText(res.body);
+    if (!pdf) return null;
+    return {
+      text: pdf.text,
+      metadata: articleMetadata(
+        { canonical_url: res.url, title: pdf.title },
+        pdf.text
+      ),
+    };
+  },
+};
+
+const TEXT_TYPES = new Set([
+  "text/plain",
+  "text/markdown",
+  "text/x-markdown",
+  "text/x-rst",
+]);
+
+export const plainTextExtractor: ContentExtractor = {
+  name: "text",
+  match: (contentType, res) =>
+    TEXT_TYPES.has(contentType) ||
+    (contentType === "" && /\.(md|markdown|txt|rst)$/i.test(res.url)),
+  extract: (res) => {
+    const text = new TextDecoder()
+      .decode(res.body)
+      .replace(/\r\n/g, "\n")
+      .trim();
+    if (!text) return null;
+    const heading = text.match(/^#\s+(.+)$/m)?.[1] ?? null;
+    return {
+      text,
+      metadata: articleMetadata(
+        { canonical_url: res.url, title: heading },
+        text
+      ),
+    };
+  },
+};
+
+// Fallback for anything that looks like a web page.
+export const htmlExtractor: ContentExtractor = {
+  name: "html",
+  match: (contentType) =>
+    contentType === "" ||
+    contentType === "text/html" ||
+    contentType === "application/xhtml+xml",
+  extract: (res): ExtractedContent | null =>
+    extractArticle(new TextDecoder().decode(res.body), res.url),
+};
+
+export const builtinExtractors = (
+  registry: ExtractorRegistry,
+  opts?: { githubToken?: string }
+) =>
+  registry
+    .registerUrl(githubExtractor({ token: opts?.githubToken }))
+    .registerUrl(arxivExtractor)
+    .registerContent(pdfExtractor)
+    .registerContent(plainTextExtractor)
+    .registerContent(htmlExtractor);
@@ -0,0 +1,174 @@
+import type { StoredDigestRun } from "./digests";
+import type { HNFeed, NormalizedItem } from "./hn-api";
+
+// RSS 2.0, Atom and JSON Feed renderings of stored digest runs. Each run is
+// one entry, newest first, so a reader's top entry is the latest digest.
+
+export type FeedInfo = {
+  title: string;
+  // Absolute URL of the feed itself.
+  self: string;
+  // Where the feed's items come from.
+  home: string;
+};
+
+export const escapeXml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Slack escapes these three in message text.
+const unescapeSlack = (s: string) =>
+  s.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+
+const formatInline = (s: string) =>
+  escapeXml(unescapeSlack(s))
+    .replace(/`([^`]+)`/g, "<code>$1</code>")
+    .replace(/(^|\W)\*([^*\n]+)\*(?=\W|$)/g, "$1<strong>$2</strong>")
+    .replace(/(^|\W)_([^_\n]+)_(?=\W|$)/g, "$1<em>$2</em>");
+
+const inlineHtml = (line: string) => {
+  let html = "";
+  let last = 0;
+  for (const m of line.matchAll(/<(https?:\/\/[^|>\s]+)(?:\|([^>]*))?>/g)) {
+    html += formatInline(line.slice(last, m.index));
+    html += `<a href="${escapeXml(unescapeSlack(m[1]))}">${formatInline(
+      m[2] || m[1]
+    )}</a>`;
+    last = m.index! + m[0].length;
+  }
+  return html + formatInline(line.slice(last));
+};
+
+// Enough of Slack mrkdwn for a feed reader: links, bold, italics, code and
+// bullet lists. Anything else comes through as escaped text.
+export const mrkdwnToHtml = (text: string) => {
+  const out: string[] = [];
+  let list: string[] = [];
+  const flush = () => {
+    if (list.length) out.push(`<ul>${list.join("")}</ul>`);
+    list = [];
+  };
+  for (const line of text.split("\n")) {
+    const bullet = line.match(/^\s*(?:[•◦▪-]|\d+\.)\s+(.*)$/);
+    if (bullet) {
+      list.push(`<li>${inlineHtml(bullet[1])}</li>`);
+      continue;
+    }
+    flush();
+    if (line.trim()) out.push(`<p>${inlineHtml(line)}</p>`);
+  }
+  flush();
+  return out.join("\n");
+};
+
+const HN_FEED_PAGES: Record<HNFeed, string> = {
+  top: "news",
+  new: "newest",
+  best: "best",
+  ask: "ask",
+  show: "show",
+  job: "jobs",
+};
+
+export const hnFeedPage = (feed: HNFeed) =>
+  `https://news.ycombinator.com/${HN_FEED_PAGES[feed]}`;
+
+const storyHtml = (s: NormalizedItem) => {
+  const link = s.url ?? s.comments_url ?? "";
+  const stats = `${s.score ?? 0} points, ${
+    s.comments_url
+      ? `<a href="${escapeXml(s.comments_url)}">${
+          s.comments_count ?? 0
+        } comments</a>`
+      : `${s.comments_count ?? 0} comments`
+  }`;
+  return `<li><a href="${escapeXml(link)}">${escapeXml(
+    s.title ?? "Untitled"
+  )}</a> (${stats})</li>`;
+};
+
+const runTitle = (run: StoredDigestRun) =>
+  `Hacker News ${run.feed} digest, ${new Date(run.at)
+    .toISOString()
+    .slice(0, 10)}`;
+
+const runId = (run: StoredDigestRun) => `hn-digest:${run.digest_id}:${run.at}`;
+
+const runHtml = (run: StoredDigestRun) =>
+  `${mrkdwnToHtml(run.text)}${
+    run.stories.length
+      ? `\n<ul>${run.stories.map(storyHtml).join("")}</ul>`
+      : ""
+  }`;
+
+export const rssFeed = (info: FeedInfo, runs: StoredDigestRun[]) => {
+  const items = runs.map(
+    (r) => `    <item>
+      <title>${escapeXml(runTitle(r))}</title>
+      <link>${escapeXml(hnFeedPage(r.feed))}</link>
+      <guid isPermaLink="false">${escapeXml(runId(r))}</guid>
+      <pubDate>${new Date(r.at).toUTCString()}</pubDate>
+      <description>${escapeXml(runHtml(r))}</description>
+    </item>`
+  );
+  const updated = runs[0] ? new Date(runs[0].at) : new Date(0);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(info.title)}</title>
+    <link>${escapeXml(info.home)}</link>
+    <description>${escapeXml(info.title)}</description>
+    <atom:link href="${escapeXml(
+      info.self
+    )}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${updated.toUTCString()}</lastBuildDate>
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+};
+
+export const atomFeed = (info: FeedInfo, runs: StoredDigestRun[]) => {
+  const entries = runs.map(
+    (r) => `  <entry>
+    <id>urn:${escapeXml(runId(r))}</id>
+    <title>${escapeXml(runTitle(r))}</title>
+    <link href="${escapeXml(hnFeedPage(r.feed))}"/>
+    <updated>${new Date(r.at).toISOString()}</updated>
+    <content type="html">${escapeXml(runHtml(r))}</content>
+  </entry>`
+  );
+  const updated = runs[0] ? new Date(runs[0].at) : new Date(0);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(info.self)}</id>
+  <title>${escapeXml(info.title)}</title>
+  <link href="${escapeXml(info.self)}" rel="self"/>
+  <link href="${escapeXml(info.home)}"/>
+  <author><name>Hacker Tracker</name></author>
+  <updated>${updated.toISOString()}</updated>
+${entries.join("\n")}
+</feed>
+`;
+};
+
+// JSON Feed 1.1. The stories ride along under an extension key in the same
+// shape the API returns.
+export const jsonFeed = (info: FeedInfo, runs: StoredDigestRun[]) => ({
+  version: "https://jsonfeed.org/version/1.1",
+  title: info.title,
+  home_page_url: info.home,
+  feed_url: info.self,
+  items: runs.map((r) => ({
+    id: runId(r),
+    url: hnFeedPage(r.feed),
+    title: runTitle(r),
+    content_html: runHtml(r),
+    content_text: unescapeSlack(r.text),
+    date_published: new Date(r.at).toISOString(),
+    _hn: { digest_id: r.digest_id, feed: r.feed, stories: r.stories },
+  })),
+});
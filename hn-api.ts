@@ -0,0 +1,415 @@
+import { setMaxListeners } from "node:events";
+import { parse } from "node-html-parser";
+import { MemoryCacheStore, type CacheStore } from "./cache-store";
+import { now } from "./clock";
+import {
+  HttpClient,
+  abortError,
+  abortable,
+  throwIfAborted,
+  toFailure,
+} from "./http";
+
+export const HN_API_BASE = "https://hacker-news.firebaseio.com/v0";
+
+export const HN_FEEDS = ["top", "new", "best", "ask", "show", "job"] as const;
+export type HNFeed = (typeof HN_FEEDS)[number];
+
+const FEED_ENDPOINTS: Record<HNFeed, string> = {
+  top: "topstories",
+  new: "newstories",
+  best: "beststories",
+  ask: "askstories",
+  show: "showstories",
+  job: "jobstories",
+};
+
+export const nowMs = () => now();
+
+export type Settled<R> =
+  | { status: "fulfilled"; value: R }
+  | { status: "rejected"; reason: unknown }
+  // Never started: the signal fired (or, in pMap, a mapper failed) first.
+  | { status: "skipped" };
+
+type Mapper<T, R> = (t: T, i: number, signal: AbortSignal) => Promise<R>;
+
+// Runs mappers `concurrency` at a time. Once `stop` fires no new item is
+// started, and the mappers already running see their signal abort; the pool
+// still waits for them so nothing outlives the call.
+const runPool = async <T, R>(
+  items: T[],
+  mapper: Mapper<T, R>,
+  concurrency: number,
+  signal: AbortSignal | undefined,
+  stopOnError: boolean
+): Promise<Settled<R>[]> => {
+  const out: Settled<R>[] = items.map(() => ({ status: "skipped" }));
+  const stop = new AbortController();
+  // Every running mapper (and the requests under it) listens on this.
+  setMaxListeners(0, stop.signal);
+  const onAbort = () => stop.abort(signal!.reason);
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !stop.signal.aborted) {
+      const i = next++;
+      try {
+        out[i] = {
+          status: "fulfilled",
+          value: await mapper(items[i], i, stop.signal),
+        };
+      } catch (reason) {
+        out[i] = { status: "rejected", reason };
+        if (stopOnError) stop.abort(reason);
+      }
+    }
+  };
+  try {
+    await Promise.all(
+      Array.from(
+        { length: Math.min(Math.max(1, concurrency), items.length) },
+        worker
+      )
+    );
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+  return out;
+};
+
+// Rejects with the first mapper error, or an abort error, but only after
+// every running mapper has settled.
+export const pMap = async <T, R>(
+  items: T[],
+  mapper: Mapper<T, R>,
+  concurrency: number,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  let first: unknown = undefined;
+  let failed = false;
+  const settled = await runPool(
+    items,
+    async (t, i, s) => {
+      try {
+        return await mapper(t, i, s);
+      } catch (e) {
+        if (!failed) [failed, first] = [true, e];
+        throw e;
+      }
+    },
+    concurrency,
+    signal,
+    true
+  );
+  if (failed) throw first;
+  if (signal?.aborted && settled.some((s) => s.status === "skipped"))
+    throw abortError(signal);
+  return settled.map((s) => (s as { value: R }).value);
+};
+
+// Like pMap, but never rejects: every item reports how it went, so callers
+// can return what finished before a deadline.
+export const pMapSettled = <T, R>(
+  items: T[],
+  mapper: Mapper<T, R>,
+  concurrency: number,
+  signal?: AbortSignal
+): Promise<Settled<R>[]> => runPool(items, mapper, concurrency, signal, false);
+
+// Per-item outcome reported by tools that can return partial results.
+// "partial" items are in the results with something missing (an article,
+// part of the thread) because the deadline hit.
+export type ItemStatus = {
+  id: number | null;
+  status: "ok" | "partial" | "error" | "timeout" | "aborted" | "skipped";
+  error?: string;
+};
+
+export const itemStatus = (
+  id: number | null,
+  settled: Settled<unknown>
+): ItemStatus => {
+  if (settled.status === "fulfilled") return { id, status: "ok" };
+  if (settled.status === "skipped") return { id, status: "skipped" };
+  const failure = toFailure(settled.reason);
+  return {
+    id,
+    status:
+      failure.kind === "timeout" || failure.kind === "aborted"
+        ? failure.kind
+        : "error",
+    error: failure.message,
+  };
+};
+
+export class HackerNewsAPI {
+  private cache: CacheStore;
+  private pending = new Map<string, Promise<any>>();
+  private ttlFeeds: Record<HNFeed, number>;
+  private ttlItem: number;
+  private ttlUser: number;
+  private baseUrl: string;
+  readonly concurrency: number;
+  private http: HttpClient;
+  private cleanupTimer: any;
+
+  constructor(opts?: {
+    ttlTopStoriesMs?: number;
+    ttlFeedMs?: Partial<Record<HNFeed, number>>;
+    ttlItemMs?: number;
+    ttlUserMs?: number;
+    concurrency?: number;
+    baseUrl?: string;
+    store?: CacheStore;
+    http?: HttpClient;
+    fetch?: (url: string, init: RequestInit) => Promise<Response>;
+  }) {
+    this.cache = opts?.store ?? new MemoryCacheStore();
+    this.http = opts?.http ?? new HttpClient({ fetch: opts?.fetch });
+    const ttlTop = opts?.ttlTopStoriesMs ?? 2 * 60 * 1000;
+    // "new" churns every few seconds, "best" and "job" barely move.
+    this.ttlFeeds = {
+      top: ttlTop,
+      new: 60 * 1000,
+      best: 10 * 60 * 1000,
+      ask: ttlTop,
+      show: ttlTop,
+      job: 10 * 60 * 1000,
+      ...opts?.ttlFeedMs,
+    };
+    this.ttlItem = opts?.ttlItemMs ?? 10 * 60 * 1000;
+    this.ttlUser = opts?.ttlUserMs ?? 10 * 60 * 1000;
+    this.concurrency = Math.max(1, Math.min(32, opts?.concurrency ?? 12));
+    this.baseUrl = (opts?.baseUrl ?? HN_API_BASE).replace(/\/+$/, "");
+    this.cleanupTimer = setInterval(() => this.cleanup(), 60 * 1000);
+    if (typeof this.cleanupTimer.unref === "function")
+      this.cleanupTimer.unref();
+  }
+
+  private async getCached<T>(key: string): Promise<T | undefined> {
+    try {
+      return await this.cache.get<T>(key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async setCached<T>(key: string, value: T, ttlMs: number) {
+    try {
+      await this.cache.set(key, value, ttlMs);
+    } catch {
+      // A failing store should degrade to uncached reads, not errors.
+    }
+  }
+
+  cacheStats() {
+    return this.cache.stats();
+  }
+
+  private async dedupe<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const p = this.pending.get(key);
+    if (p) return p as Promise<T>;
+    const created = fn();
+    this.pending.set(key, created);
+    try {
+      const v = await created;
+      return v;
+    } finally {
+      this.pending.delete(key);
+    }
+  }
+
+  private async getJSON<T>(url: string): Promise<T> {
+    return this.http.getJSON<T>(url);
+  }
+
+  // A signal stops the caller waiting. Requests are shared between callers,
+  // so the request itself runs on (within its timeout) and fills the cache.
+  async getStories(
+    feed: HNFeed,
+    opts?: { signal?: AbortSignal }
+  ): Promise<number[]> {
+    throwIfAborted(opts?.signal);
+    const key = FEED_ENDPOINTS[feed];
+    const cached = await this.getCached<number[]>(key);
+    if (cached !== undefined) return cached;
+    const val = await abortable(
+      this.dedupe<number[]>(key, async () => {
+        const data = await this.getJSON<number[]>(
+          `${this.baseUrl}/${key}.json`
+        );
+        await this.setCached(key, data, this.ttlFeeds[feed]);
+        return data;
+      }),
+      opts?.signal
+    );
+    return val;
+  }
+
+  async getTopStories(): Promise<number[]> {
+    return this.getStories("top");
+  }
+
+  async getItem(id: number, opts?: { signal?: AbortSignal }): Promise<any> {
+    throwIfAborted(opts?.signal);
+    const key = `item:${id}`;
+    const cached = await this.getCached<any>(key);
+    if (cached !== undefined) return cached;
+    const val = await abortable(
+      this.dedupe<any>(key, async () => {
+        const data = await this.getJSON<any>(`${this.baseUrl}/item/${id}.json`);
+        await this.setCached(key, data, this.ttlItem);
+        return data;
+      }),
+      opts?.signal
+    );
+    return val;
+  }
+
+  async getUser(
+    username: string,
+    opts?: { signal?: AbortSignal }
+  ): Promise<any> {
+    throwIfAborted(opts?.signal);
+    const key = `user:${username}`;
+    const cached = await this.getCached<any>(key);
+    if (cached !== undefined) return cached;
+    const val = await abortable(
+      this.dedupe<any>(key, async () => {
+        const data = await this.getJSON<any>(
+          `${this.baseUrl}/user/${encodeURIComponent(username)}.json`
+        );
+        if (data) await this.setCached(key, data, this.ttlUser);
+        return data;
+      }),
+      opts?.signal
+    );
+    return val;
+  }
+
+  async getBatchItems(
+    ids: number[],
+    opts?: { signal?: AbortSignal }
+  ): Promise<any[]> {
+    return pMap(
+      ids,
+      (id, _i, signal) => this.getItem(id, { signal }),
+      this.concurrency,
+      opts?.signal
+    );
+  }
+
+  // Every id with its outcome, for callers that return partial results.
+  async getBatchItemsSettled(
+    ids: number[],
+    opts?: { signal?: AbortSignal }
+  ): Promise<Settled<any>[]> {
+    return pMapSettled(
+      ids,
+      (id, _i, signal) => this.getItem(id, { signal }),
+      this.concurrency,
+      opts?.signal
+    );
+  }
+
+  // The change feed endpoints are never cached: callers poll them precisely
+  // because they want the current value.
+  async getMaxItem(): Promise<number> {
+    return this.getJSON<number>(`${this.baseUrl}/maxitem.json`);
+  }
+
+  async getUpdates(): Promise<{ items: number[]; profiles: string[] }> {
+    const data = await this.getJSON<any>(`${this.baseUrl}/updates.json`);
+    return {
+      items: Array.isArray(data?.items) ? data.items : [],
+      profiles: Array.isArray(data?.profiles) ? data.profiles : [],
+    };
+  }
+
+  async invalidateItems(ids: number[]) {
+    await Promise.all(ids.map((id) => this.cache.delete(`item:${id}`)));
+  }
+
+  async invalidateUsers(usernames: string[]) {
+    await Promise.all(usernames.map((u) => this.cache.delete(`user:${u}`)));
+  }
+
+  async invalidateFeed(feed: HNFeed) {
+    await this.cache.delete(FEED_ENDPOINTS[feed]);
+  }
+
+  private cleanup() {
+    this.cache.cleanup().catch(() => {});
+  }
+}
+
+export const timeAgo = (unixSeconds: number | null, nowMs = now()) => {
+  if (!unixSeconds || typeof unixSeconds !== "number") return null;
+  let s = Math.max(0, Math.floor(nowMs / 1000) - unixSeconds);
+  const units: [number, string][] = [
+    [365 * 24 * 3600, "y"],
+    [30 * 24 * 3600, "mo"],
+    [7 * 24 * 3600, "w"],
+    [24 * 3600, "d"],
+    [3600, "h"],
+    [60, "m"],
+    [1, "s"],
+  ];
+  for (const [sec, label] of units) {
+    if (s >= sec) return `${Math.floor(s / sec)}${label} ago`;
+  }
+  return "just now";
+};
+
+export const stripHtml = (html: string | null | undefined) => {
+  if (!html) return null;
+  try {
+    const root = parse(html);
+    return root.textContent?.replace(/\s+/g, " ").trim() || null;
+  } catch {
+    return html
+      .replace(/<[^>]*>/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+};
+
+export const hnItemUrl = (id: number) =>
+  `https://news.ycombinator.com/item?id=${id}`;
+
+// Shape shared by every tool that returns an HN item.
+export type NormalizedItem = {
+  id: number | null;
+  title: string | null;
+  by: string | null;
+  score: number | null;
+  time: number | null;
+  time_ago: string | null;
+  url: string | null;
+  type: string | null;
+  text: string | null;
+  comments_count: number | null;
+  comments_url: string | null;
+};
+
+export const normalizeItem = (
+  item: any,
+  opts?: { stripHtml?: boolean }
+): NormalizedItem => ({
+  id: (item?.id as number | null) ?? null,
+  title: (item?.title as string | null) ?? null,
+  by: (item?.by as string | null) ?? null,
+  score: (item?.score as number | null) ?? null,
+  time: (item?.time as number | null) ?? null,
+  time_ago: timeAgo(item?.time ?? null),
+  url: (item?.url as string | undefined) || null,
+  type: (item?.type as string | null) ?? null,
+  text:
+    opts?.stripHtml === false
+      ? (item?.text as string | undefined) || null
+      : stripHtml(item?.text as string | undefined) || null,
+  comments_count: (item?.descendants as number | null) ?? null,
+  comments_url: item?.id ? hnItemUrl(item.id) : null,
+});
@@ -0,0 +1,138 @@
+import {
+  hnItemUrl,
+  nowMs,
+  stripHtml,
+  timeAgo,
+  type NormalizedItem,
+} from "./hn-api";
+import { HttpClient } from "./http";
+
+const HN_SEARCH_BASE = "https://hn.algolia.com/api/v1";
+
+export const SEARCH_TAGS = ["story", "comment", "ask_hn", "show_hn"] as const;
+export type SearchTag = (typeof SEARCH_TAGS)[number];
+
+export type SearchParams = {
+  query: string;
+  // Tags are OR-ed together, e.g. ["ask_hn", "show_hn"].
+  tags?: SearchTag[];
+  author?: string;
+  // Unix seconds, inclusive.
+  createdAfter?: number;
+  createdBefore?: number;
+  minPoints?: number;
+  sort?: "relevance" | "date";
+  // Match the query against story URLs only.
+  restrictToUrl?: boolean;
+  page?: number;
+  hitsPerPage?: number;
+};
+
+export type SearchHit = NormalizedItem & {
+  story_id: number | null;
+  story_title: string | null;
+  parent: number | null;
+};
+
+export type SearchResult = {
+  hits: SearchHit[];
+  page: number;
+  pages: number;
+  total: number;
+};
+
+type CacheEntry<T> = { value: T; expires: number };
+
+export class HackerNewsSearch {
+  private cache = new Map<string, CacheEntry<SearchResult>>();
+  private pending = new Map<string, Promise<SearchResult>>();
+  private baseUrl: string;
+  private ttl: number;
+  private http: HttpClient;
+
+  constructor(opts?: { baseUrl?: string; ttlMs?: number; http?: HttpClient }) {
+    this.http = opts?.http ?? new HttpClient();
+    this.baseUrl = (opts?.baseUrl ?? HN_SEARCH_BASE).replace(/\/+$/, "");
+    this.ttl = opts?.ttlMs ?? 60 * 1000;
+  }
+
+  buildUrl(params: SearchParams): string {
+    const endpoint = params.sort === "date" ? "search_by_date" : "search";
+    const qs = new URLSearchParams();
+    qs.set("query", params.query);
+
+    const tags: string[] = [];
+    if (params.tags?.length) tags.push(`(${params.tags.join(",")})`);
+    if (params.author) tags.push(`author_${params.author}`);
+    if (tags.length) qs.set("tags", tags.join(","));
+
+    const numeric: string[] = [];
+    if (params.createdAfter != null)
+      numeric.push(`created_at_i>=${Math.floor(params.createdAfter)}`);
+    if (params.createdBefore != null)
+      numeric.push(`created_at_i<=${Math.floor(params.createdBefore)}`);
+    if (params.minPoints != null) numeric.push(`points>=${params.minPoints}`);
+    if (numeric.length) qs.set("numericFilters", numeric.join(","));
+    if (params.restrictToUrl) qs.set("restrictSearchableAttributes", "url");
+
+    qs.set("page", String(params.page ?? 0));
+    qs.set("hitsPerPage", String(params.hitsPerPage ?? 20));
+    return `${this.baseUrl}/${endpoint}?${qs.toString()}`;
+  }
+
+  async search(params: SearchParams): Promise<SearchResult> {
+    const url = this.buildUrl(params);
+    const cached = this.cache.get(url);
+    if (cached && cached.expires >= nowMs()) return cached.value;
+
+    const p = this.pending.get(url);
+    if (p) return p;
+    const created = (async () => {
+      const data = await this.http.getJSON<any>(url);
+      const result: SearchResult = {
+        hits: Array.isArray(data?.hits) ? data.hits.map(normalizeHit) : [],
+        page: data?.page ?? 0,
+        pages: data?.nbPages ?? 0,
+        total: data?.nbHits ?? 0,
+      };
+      this.cache.set(url, { value: result, expires: nowMs() + this.ttl });
+      return result;
+    })();
+    this.pending.set(url, created);
+    try {
+      return await created;
+    } finally {
+      this.pending.delete(url);
+    }
+  }
+}
+
+const hitType = (tags: string[]) => {
+  for (const t of ["comment", "story", "poll", "pollopt", "job"]) {
+    if (tags.includes(t)) return t;
+  }
+  return null;
+};
+
+// Map an Algolia hit onto the same shape the Firebase-backed tools return.
+export const normalizeHit = (hit: any): SearchHit => {
+  const id = Number(hit?.objectID) || null;
+  const tags: string[] = Array.isArray(hit?._tags) ? hit._tags : [];
+  const time = (hit?.created_at_i as number | undefined) ?? null;
+  return {
+    id,
+    title: hit?.title ?? null,
+    by: hit?.author ?? null,
+    score: hit?.points ?? null,
+    time,
+    time_ago: timeAgo(time),
+    url: hit?.url || null,
+    type: hitType(tags),
+    text: stripHtml(hit?.comment_text ?? hit?.story_text) || null,
+    comments_count: hit?.num_comments ?? null,
+    comments_url: id ? hnItemUrl(id) : null,
+    story_id: hit?.story_id ?? null,
+    story_title: hit?.story_title ?? null,
+    parent: hit?.parent_id ?? null,
+  };
+};
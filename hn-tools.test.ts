@@ -0,0 +1,444 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  asSchema,
+  type InferToolInput,
+  type InferToolOutput,
+  type LanguageModel,
+  type Tool,
+} from "ai";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ArticleCache } from "./article-cache";
+import { FakeClock, now, useClock } from "./clock";
+import { configSchema } from "./config";
+import { HackerNewsAPI } from "./hn-api";
+import { HackerNewsSearch } from "./hn-search";
+import { hnTools } from "./hn-tools";
+import { HttpClient } from "./http";
+import type { Preferences } from "./preferences";
+import {
+  AlgoliaDiscussionLookup,
+  PreviousDiscussions,
+} from "./previous-discussions";
+import { FixtureTransport } from "./record-replay";
+import { SnapshotStore, TrendTracker } from "./trending";
+
+// The tools run against fixtures/hn in replay mode, with the clock pinned to
+// the recording time. The fixtures hold a small front page: a Show HN with
+// an article and a short thread (101), an Ask HN (102) and a story whose
+// article is gone (103).
+const FIXTURES = fileURLToPath(new URL("./fixtures/hn", import.meta.url));
+
+let dataDir: string;
+let restoreClock: () => void;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), "hn-tools-"));
+  const transport = new FixtureTransport({ mode: "replay", dir: FIXTURES });
+  restoreClock = useClock(new FakeClock(transport.recordedAt()!));
+});
+
+afterEach(() => {
+  restoreClock();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+// `delayMs` holds every response back that long (until the request is
+// aborted); `deadlineMs` replaces the tools' own deadlines.
+const setup = (opts?: {
+  model?: LanguageModel;
+  prefs?: Preferences;
+  delayMs?: number;
+  deadlineMs?: number;
+}) => {
+  const transport = new FixtureTransport({ mode: "replay", dir: FIXTURES });
+  const delayMs = opts?.delayMs;
+  const fetch: FixtureTransport["fetch"] = delayMs
+    ? (input, init) =>
+        new Promise((resolve, reject) => {
+          const timer = setTimeout(
+            () => resolve(transport.fetch(input, init)),
+            delayMs
+          );
+          init?.signal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(init.signal!.reason);
+          });
+        })
+    : transport.fetch;
+  const http = new HttpClient({ fetch, retries: 0 });
+  const api = new HackerNewsAPI({ http });
+  const search = new HackerNewsSearch({ http });
+  const snapshots = new SnapshotStore({
+    path: join(dataDir, "snapshots.json"),
+  });
+  const tools = hnTools(
+    {
+      api,
+      articles: new ArticleCache({ http }),
+      search,
+      previous: new PreviousDiscussions({
+        lookup: new AlgoliaDiscussionLookup({ search }),
+      }),
+      trends: new TrendTracker({ api, store: snapshots }),
+      config: configSchema.parse({}),
+      model: opts?.model,
+    },
+    {
+      prefs: opts?.prefs ?? {},
+      deadline: (ms) => AbortSignal.timeout(opts?.deadlineMs ?? ms),
+    }
+  );
+  return { tools, snapshots };
+};
+
+// Runs a tool the way the model does: input through the schema first, so
+// defaults apply.
+const call = async <T extends Tool>(
+  tool: T,
+  input: Partial<InferToolInput<T>>
+): Promise<InferToolOutput<T>> => {
+  const parsed = await asSchema(tool.inputSchema).validate!(input);
+  if (!parsed.success) throw parsed.error;
+  const output = await tool.execute!(parsed.value, {
+    toolCallId: "test",
+    messages: [],
+  });
+  // None of the HN tools stream.
+  return output as InferToolOutput<T>;
+};
+
+// The result of a call that didn't fail outright.
+const ok = <T extends object>(res: T): Exclude<T, { error: unknown }> => {
+  expect(res).not.toHaveProperty("error");
+  return res as Exclude<T, { error: unknown }>;
+};
+
+// Answers every call with `text` and keeps the prompts it was sent.
+const mockModel = (text: string) => {
+  const prompts: unknown[] = [];
+  const model: Exclude<LanguageModel, string> = {
+    specificationVersion: "v2",
+    provider: "test",
+    modelId: "mock",
+    supportedUrls: {},
+    doGenerate: async (options) => {
+      prompts.push(options.prompt);
+      return {
+        content: [{ type: "text", text }],
+        finishReason: "stop",
+        usage: { inputTokens: 10, outputTokens: 10, totalTokens: 20 },
+        warnings: [],
+      };
+    },
+    doStream: async () => {
+      throw new Error("not used");
+    },
+  };
+  return { model, prompt: () => JSON.stringify(prompts) };
+};
+
+describe("fetch_hn_top_articles", () => {
+  it("lists the feed with article text, Ask HN text and fetch errors", async () => {
+    const { tools } = setup();
+    const res = ok(
+      await call(tools.fetch_hn_top_articles, {
+        include_article: true,
+      })
+    );
+
+    expect(res.partial).toBeUndefined();
+    expect(res.items.map((i) => i.id)).toEqual([101, 102, 103]);
+    const [show, ask, gone] = res.items;
+    expect(show).toMatchObject({
+      title: "Show HN: A tiny SQLite replication tool",
+      score: 240,
+      comments_count: 3,
+      time_ago: "3h ago",
+      source: "url",
+      extractor: "html",
+      article_metadata: {
+        title: "A tiny SQLite replication tool",
+        author: "Alice Example",
+        site_name: "Example Engineering",
+      },
+    });
+    expect(show.content).toMatch(
+      /^# A tiny SQLite replication tool\n\nWe built litecopy/
+    );
+    expect(ask).toMatchObject({
+      source: "hn",
+      content: "Looking for non-fiction recommendations.",
+    });
+    expect(gone).toMatchObject({
+      source: "error",
+      content: null,
+      error: { kind: "http_status", status: 404 },
+    });
+  });
+
+  it("skips stories muted by preferences", async () => {
+    const { tools } = setup({ prefs: { muted_keywords: ["rust"] } });
+    const res = ok(await call(tools.fetch_hn_top_articles, { limit: 3 }));
+    expect(res.items.map((i) => i.id)).toEqual([101, 102]);
+  });
+});
+
+describe("fetch_hn_item_details", () => {
+  it("returns the article, the comment tree and earlier submissions", async () => {
+    const { tools } = setup();
+    const res = ok(
+      await call(tools.fetch_hn_item_details, {
+        id: 101,
+        include_article: true,
+        include_comments: true,
+        max_depth: 2,
+        include_previous_discussions: true,
+      })
+    );
+
+    expect(res.item.id).toBe(101);
+    expect(res.article_extractor).toBe("html");
+    expect(res.article_content).toContain("write-ahead log");
+    expect(res.article_content).not.toContain("Copyright");
+    expect(res.comments!.map((c) => c.id)).toEqual([201, 202]);
+    expect(res.comments![0].text).toBe(
+      "This is great, I've wanted something like this for years."
+    );
+    expect(res.comments![0].children.map((c) => c.id)).toEqual([204]);
+    expect(res.comments_next_cursor).toBeNull();
+    expect(res.previous_discussions!.map((d) => d.id)).toEqual([55]);
+    expect(res.partial).toBeUndefined();
+  });
+
+  it("fails on requests that were never recorded", async () => {
+    const { tools } = setup();
+    await expect(
+      call(tools.fetch_hn_item_details, { id: 999 })
+    ).rejects.toMatchObject({ kind: "blocked" });
+  });
+});
+
+describe("analyze_hn_discussion", () => {
+  it("links themes to comments and adds subthread stances", async () => {
+    const mock = mockModel(
+      JSON.stringify({
+        overall: { sentiment: "positive", summary: "People like it." },
+        themes: [
+          {
+            title: "Conflict handling",
+            summary: "How replicas resolve writes.",
+            sentiment: "neutral",
+            comment_ids: [202, 204, 12345],
+          },
+        ],
+        subthreads: [
+          { root_id: 201, stance: "supportive", summary: "Praise." },
+          {
+            root_id: 202,
+            stance: "neutral",
+            summary: "Asks about conflicts.",
+          },
+        ],
+      })
+    );
+    const { tools } = setup({ model: mock.model });
+    const res = ok(await call(tools.analyze_hn_discussion, { id: 101 }));
+
+    expect(res.analyzed_comments).toBe(3);
+    expect(res.overall).toEqual({
+      sentiment: "positive",
+      summary: "People like it.",
+    });
+    // Ids the model made up are dropped.
+    expect(res.themes[0].comments.map((c) => c.permalink)).toEqual([
+      "https://news.ycombinator.com/item?id=202",
+      "https://news.ycombinator.com/item?id=204",
+    ]);
+    expect(res.subthreads.map((s) => [s.root_id, s.stance, s.replies])).toEqual(
+      [
+        [201, "supportive", 1],
+        [202, "neutral", 0],
+      ]
+    );
+    expect(mock.prompt()).toContain("[204] alice");
+  });
+});
+
+describe("summarize_hn_tldr", () => {
+  it("summarizes the feed from article excerpts and comments", async () => {
+    const mock = mockModel("- *Show HN: A tiny SQLite replication tool*");
+    const { tools } = setup({ model: mock.model });
+    const res = ok(
+      await call(tools.summarize_hn_tldr, {
+        include_comments: true,
+      })
+    );
+
+    expect(res).toMatchObject({
+      format: "markdown",
+      stories_count: 3,
+      output: "- *Show HN: A tiny SQLite replication tool*",
+    });
+    const prompt = mock.prompt();
+    expect(prompt).toContain("We built litecopy");
+    expect(prompt).toContain("How does it handle write conflicts");
+  });
+
+  it("fills stories the model skipped in JSON output", async () => {
+    const mock = mockModel(
+      JSON.stringify({
+        stories: [
+          {
+            id: 101,
+            summary: ["Streams SQLite WAL frames to a replica."],
+            sentiment: "positive",
+            feedback: ["Questions about conflicts."],
+          },
+        ],
+      })
+    );
+    const { tools } = setup({ model: mock.model });
+    const res = ok(
+      await call(tools.summarize_hn_tldr, {
+        story_ids: [101, 102],
+        include_comments: true,
+        format: "json",
+      })
+    );
+
+    if (res.format !== "json") throw new Error(`got ${res.format} output`);
+    const [show, ask] = res.output.stories;
+    expect(show).toMatchObject({
+      id: 101,
+      points: 240,
+      summary: ["Streams SQLite WAL frames to a replica."],
+      sentiment: "positive",
+    });
+    expect(ask).toMatchObject({ id: 102, summary: [], sentiment: "unknown" });
+    expect(res.warnings).toHaveLength(1);
+  });
+});
+
+describe("fetch_hn_user", () => {
+  it("splits recent activity into submissions and comments", async () => {
+    const { tools } = setup();
+    const res = ok(await call(tools.fetch_hn_user, { username: "alice" }));
+
+    expect(res.user).toMatchObject({
+      id: "alice",
+      karma: 1234,
+      account_age: "3y",
+      submitted_count: 2,
+      profile_url: "https://news.ycombinator.com/user?id=alice",
+    });
+    expect(res.recent_submissions.map((s) => s.id)).toEqual([101]);
+    expect(res.recent_comments).toEqual([
+      expect.objectContaining({
+        id: 204,
+        text: "Thanks! Conflicts are last-writer-wins for now.",
+        parent: 201,
+      }),
+    ]);
+  });
+});
+
+describe("search_hn", () => {
+  it("returns hits in the item shape", async () => {
+    const { tools } = setup();
+    const res = ok(
+      await call(tools.search_hn, {
+        query: "sqlite",
+        tags: ["story"],
+        min_points: 100,
+      })
+    );
+
+    expect(res.total).toBe(2);
+    expect(res.hits[1]).toMatchObject({
+      id: 90,
+      title: "SQLite is not a toy database",
+      by: "grace",
+      score: 512,
+      type: "story",
+      time_ago: "1y ago",
+      comments_url: "https://news.ycombinator.com/item?id=90",
+    });
+  });
+
+  it("rejects dates it can't parse", async () => {
+    const { tools } = setup();
+    await expect(
+      call(tools.search_hn, { query: "sqlite", created_after: "soon" })
+    ).rejects.toThrow("Invalid date: soon");
+  });
+});
+
+describe("find_previous_discussions", () => {
+  it("matches earlier submissions of the story's URL", async () => {
+    const { tools } = setup();
+    const res = ok(await call(tools.find_previous_discussions, { id: 101 }));
+
+    expect(res.canonical_url).toBe("https://example.com/sqlite-replication");
+    expect(res.total).toBe(1);
+    expect(res.discussions[0]).toMatchObject({ id: 55, points: 35 });
+  });
+
+  it("needs a URL or an id", async () => {
+    const { tools } = setup();
+    expect(await call(tools.find_previous_discussions, {})).toEqual({
+      error: "url_or_id_required",
+    });
+  });
+});
+
+describe("fetch_hn_trending", () => {
+  it("ranks stories by velocity since the earliest snapshot in the window", async () => {
+    const { tools, snapshots } = setup();
+    const at = now() - 50 * 60 * 1000;
+    snapshots.append([
+      { id: 101, snapshot: { t: at, rank: 2, score: 140, comments: 1 } },
+      { id: 103, snapshot: { t: at, rank: 1, score: 130, comments: 0 } },
+    ]);
+    const res = ok(await call(tools.fetch_hn_trending, { history_points: 1 }));
+
+    expect(
+      res.items.map((i) => [
+        i.id,
+        i.points_per_hour,
+        i.rank_change,
+        i.rate_basis,
+      ])
+    ).toEqual([
+      [101, 120, 1, "window"],
+      [103, 24, -2, "window"],
+      [102, 16, null, "lifetime"],
+    ]);
+    expect(res.items[0].history).toEqual([
+      { t: at, rank: 2, score: 140, comments: 1 },
+    ]);
+  });
+});
+
+describe("deadlines", () => {
+  it.each([
+    ["fetch_hn_top_articles", {}],
+    ["fetch_hn_item_details", { id: 101 }],
+    ["analyze_hn_discussion", { id: 101 }],
+    ["summarize_hn_tldr", {}],
+    ["fetch_hn_user", { username: "alice" }],
+    ["find_previous_discussions", { id: 101 }],
+  ] as const)(
+    "%s returns a partial result when the first fetch runs out of time",
+    async (name, input) => {
+      const { tools } = setup({ delayMs: 2000, deadlineMs: 20 });
+      const res = await call(tools[name], input);
+      expect(res).toMatchObject({
+        error: { kind: "timeout", message: "Deadline exceeded" },
+        partial: true,
+      });
+    }
+  );
+});
@@ -0,0 +1,801 @@
+import { tool, type LanguageModel } from "ai";
+import { z } from "zod";
+import { ArticleCache } from "./article-cache";
+import { loadComments, parseCommentCursor, type CommentNode } from "./comments";
+import type { Config } from "./config";
+import { analyzeDiscussion } from "./discussion";
+import {
+  HN_FEEDS,
+  HackerNewsAPI,
+  type HNFeed,
+  hnItemUrl,
+  itemStatus,
+  normalizeItem,
+  pMapSettled,
+  stripHtml,
+  timeAgo,
+  type ItemStatus,
+} from "./hn-api";
+import { HackerNewsSearch, SEARCH_TAGS } from "./hn-search";
+import { abortError, abortable, toFailure, type FetchFailure } from "./http";
+import { mutedBy, type Preferences } from "./preferences";
+import {
+  PreviousDiscussions,
+  type PreviousDiscussion,
+} from "./previous-discussions";
+import type { ArticleMetadata } from "./readability";
+import {
+  COLLECT_SHARE,
+  collectTldrStories,
+  generateTldr,
+  generateTldrJson,
+} from "./tldr";
+import { TrendTracker } from "./trending";
+
+// The read-only Hacker News tools, apart from the agent so they can run
+// without Slack or Blink: feeds, items, discussions, TLDRs, users, search
+// and reposts. Subscriptions, digests, preferences and story cards stay in
+// agent.ts because they act on the Slack conversation.
+
+export type HnToolDeps = {
+  api: HackerNewsAPI;
+  articles: ArticleCache;
+  search: HackerNewsSearch;
+  previous: PreviousDiscussions;
+  trends: TrendTracker;
+  config: Config;
+  // Replaces config.models.summarize, e.g. with a mock model in tests.
+  model?: LanguageModel;
+};
+
+export const hasMutes = (prefs: Preferences) =>
+  !!(prefs.muted_domains?.length || prefs.muted_keywords?.length);
+
+// The first `limit` stories of a feed, skipping muted ones. Stories that
+// failed to load or were cut off by the signal are left out and reported in
+// `statuses`.
+export const feedStories = async (
+  api: HackerNewsAPI,
+  feed: HNFeed,
+  limit: number,
+  prefs: Preferences,
+  signal?: AbortSignal
+): Promise<{ items: any[]; statuses: ItemStatus[] }> => {
+  const ids = await api.getStories(feed, { signal });
+  const items: any[] = [];
+  const statuses: ItemStatus[] = [];
+  for (let i = 0; i < ids.length && items.length < limit; i += limit) {
+    const batch = ids.slice(i, i + limit);
+    const settled = await api.getBatchItemsSettled(batch, { signal });
+    settled.forEach((r, j) => {
+      if (items.length >= limit) return;
+      if (r.status !== "fulfilled") {
+        statuses.push(itemStatus(batch[j], r));
+        return;
+      }
+      if (!r.value || mutedBy(normalizeItem(r.value), prefs)) return;
+      items.push(r.value);
+      statuses.push({ id: r.value.id, status: "ok" });
+    });
+    if (!hasMutes(prefs) || signal?.aborted) break;
+  }
+  return { items, statuses };
+};
+
+// Whether a failure came from the tool's own deadline or cancellation.
+const cutOff = (
+  failure: FetchFailure | null | undefined,
+  signal: AbortSignal
+) =>
+  signal.aborted &&
+  (failure?.kind === "timeout" || failure?.kind === "aborted");
+
+const markPartial = (statuses: ItemStatus[], id: number | null) => {
+  const status = statuses.find((s) => s.id === id);
+  if (status?.status === "ok") status.status = "partial";
+};
+
+// The result of a call the deadline or an abort cut off before its first
+// fetch returned; any other error is rethrown.
+export const cutOffResult = (e: unknown, signal: AbortSignal) => {
+  if (!signal.aborted) throw e;
+  return { error: abortError(signal).toJSON(), partial: true as const };
+};
+
+// Added to a tool result when some items didn't load in full.
+export const partialReport = (statuses: ItemStatus[]) =>
+  statuses.some((s) => s.status !== "ok") ? { partial: true, statuses } : {};
+
+// The tools for one turn. Input defaults follow the caller's preferences,
+// and each call stops at `deadline(ms)` with whatever it has by then.
+export const hnTools = (
+  { api, articles, search, previous, trends, config, ...deps }: HnToolDeps,
+  {
+    prefs,
+    deadline,
+  }: { prefs: Preferences; deadline: (ms: number) => AbortSignal }
+) => {
+  const { limits } = config;
+  const model = deps.model ?? config.models.summarize;
+  return {
+    fetch_hn_top_articles: tool({
+      description:
+        "Fetch the first N stories of an HN feed (top, new, best, ask, show, job) and (optionally) extract readable article text. Includes points, comment count, and time ago.",
+      inputSchema: z.object({
+        feed: z
+          .enum(HN_FEEDS)
+          .default(prefs.default_feed ?? "top")
+          .describe(
+            "Which HN list to read: top (front page), new, best, ask (Ask HN), show (Show HN) or job."
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(limits.maxStories)
+          .default(Math.min(prefs.story_count ?? 10, limits.maxStories)),
+        include_article: z.boolean().default(prefs.fetch_articles ?? false),
+        max_content_chars: z
+          .number()
+          .int()
+          .min(200)
+          .max(limits.maxContentChars)
+          .default(1200),
+      }),
+      execute: async ({ feed, limit, include_article, max_content_chars }) => {
+        const signal = deadline(config.tools.deadlineMs);
+        let feedResult: Awaited<ReturnType<typeof feedStories>>;
+        try {
+          feedResult = await feedStories(api, feed, limit, prefs, signal);
+        } catch (e) {
+          return cutOffResult(e, signal);
+        }
+        const { items: rawItems, statuses } = feedResult;
+
+        const settled = await pMapSettled(
+          rawItems,
+          async (item, _i, signal) => {
+            try {
+              const base = normalizeItem(item);
+
+              if (!item?.url) {
+                return {
+                  ...base,
+                  content: base.text
+                    ? base.text.slice(0, max_content_chars)
+                    : null,
+                  source: "hn" as const,
+                };
+              }
+
+              if (!include_article) {
+                return { ...base, content: null, source: "url" as const };
+              }
+
+              const article = await articles.fetch(item.url, {
+                signal,
+              });
+              if (!article.ok) {
+                return {
+                  ...base,
+                  content: null,
+                  source: "error" as const,
+                  error: article.error,
+                };
+              }
+              return {
+                ...base,
+                content: article.value.text.slice(0, max_content_chars),
+                article_metadata: article.value.metadata,
+                article_details: article.value.details ?? null,
+                extractor: article.value.extractor,
+                source: "url" as const,
+              };
+            } catch {
+              return {
+                id: (item?.id as number | undefined) ?? null,
+                title: null,
+                by: null,
+                score: null,
+                time: null,
+                time_ago: null,
+                url: null,
+                type: null,
+                text: null,
+                comments_count: null,
+                comments_url: null,
+                content: null,
+                source: "error" as const,
+              };
+            }
+          },
+          api.concurrency,
+          signal
+        );
+
+        // Stories whose article the deadline cut off are still listed.
+        const items = settled.map((r, i) => {
+          if (r.status === "fulfilled") {
+            if ("error" in r.value && cutOff(r.value.error, signal)) {
+              markPartial(statuses, r.value.id);
+            }
+            return r.value;
+          }
+          markPartial(statuses, rawItems[i].id);
+          return {
+            ...normalizeItem(rawItems[i]),
+            content: null,
+            source: "error" as const,
+            error: abortError(signal).toJSON(),
+          };
+        });
+
+        return { items, ...partialReport(statuses) };
+      },
+    }),
+
+    fetch_hn_trending: tool({
+      description:
+        "Rank front-page stories by how fast they are gaining points or comments per hour, with rank changes and an optional short score/rank history per story.",
+      inputSchema: z.object({
+        limit: z.number().int().min(1).max(limits.maxStories).default(10),
+        sort_by: z.enum(["points", "comments"]).default("points"),
+        window_minutes: z
+          .number()
+          .int()
+          .min(10)
+          .max(24 * 60)
+          .default(60)
+          .describe("How far back to measure velocity."),
+        history_points: z
+          .number()
+          .int()
+          .min(0)
+          .max(48)
+          .default(0)
+          .describe("Recent snapshots to include per story (0 = none)."),
+      }),
+      execute: async ({ limit, sort_by, window_minutes, history_points }) => {
+        const items = await trends.trending({
+          // Ask for extra so muted stories can be dropped.
+          limit: hasMutes(prefs) ? limit * 2 : limit,
+          sortBy: sort_by,
+          windowMinutes: window_minutes,
+          historyPoints: history_points,
+          signal: deadline(config.tools.deadlineMs),
+        });
+        return {
+          items: items.filter((i) => !mutedBy(i, prefs)).slice(0, limit),
+        };
+      },
+    }),
+
+    fetch_hn_item_details: tool({
+      description:
+        "Fetch a single HN item by id, with optional article body and comment tree (configurable depth and limits). Large threads are paged: pass comments_next_cursor back as comments_cursor to get the next max_comments comments.",
+      inputSchema: z.object({
+        id: z.number().int(),
+        include_article: z.boolean().default(prefs.fetch_articles ?? false),
+        include_comments: z.boolean().default(false),
+        max_depth: z.number().int().min(0).max(limits.maxDepth).default(1),
+        max_comments: z
+          .number()
+          .int()
+          .min(1)
+          .max(limits.maxComments)
+          .default(50),
+        comments_cursor: z
+          .string()
+          .optional()
+          .describe(
+            "comments_next_cursor from a previous call for the same id. Implies include_comments."
+          ),
+        strip_html: z.boolean().default(true),
+        include_previous_discussions: z
+          .boolean()
+          .default(false)
+          .describe("Also list earlier submissions of the same URL."),
+      }),
+      execute: async ({
+        id,
+        include_article,
+        include_comments,
+        max_depth,
+        max_comments,
+        comments_cursor,
+        strip_html,
+        include_previous_discussions,
+      }) => {
+        const signal = deadline(config.tools.deadlineMs);
+        let item: any;
+        try {
+          item = await api.getItem(id, { signal });
+        } catch (e) {
+          return cutOffResult(e, signal);
+        }
+        if (!item) return { error: "not_found", id } as const;
+
+        const cursor = comments_cursor
+          ? parseCommentCursor(comments_cursor, id, limits.maxDepth)
+          : null;
+        if (comments_cursor && !cursor) {
+          return { error: "invalid_cursor", id } as const;
+        }
+
+        const base = normalizeItem(item, { stripHtml: strip_html });
+
+        let article_content: string | null = null;
+        let article_metadata: ArticleMetadata | null = null;
+        let article_details: Record<string, unknown> | null = null;
+        let article_extractor: string | null = null;
+        let article_error: FetchFailure | null = null;
+        if (include_article && item?.url) {
+          const article = await articles.fetch(item.url, { signal });
+          if (article.ok) {
+            article_content = article.value.text;
+            article_metadata = article.value.metadata;
+            article_details = article.value.details ?? null;
+            article_extractor = article.value.extractor;
+          } else {
+            article_error = article.error;
+          }
+        }
+
+        let comments: CommentNode[] | null = null;
+        let comments_next_cursor: string | null = null;
+        let comments_error: FetchFailure | null = null;
+        let partial = cutOff(article_error, signal);
+        if (
+          (include_comments || comments_cursor) &&
+          Array.isArray(item?.kids) &&
+          item.kids.length
+        ) {
+          try {
+            const page = await loadComments(api, item, {
+              maxDepth: max_depth,
+              maxComments: max_comments,
+              cursor,
+              stripHtml: strip_html,
+              signal,
+            });
+            comments = page.comments;
+            comments_next_cursor = page.next_cursor;
+            partial ||= page.partial;
+          } catch (e) {
+            if (!signal.aborted) throw e;
+            comments_error = toFailure(e);
+            comments_next_cursor = comments_cursor ?? null;
+            partial = true;
+          }
+        }
+
+        let previous_discussions: PreviousDiscussion[] | null = null;
+        let previous_discussions_error: FetchFailure | null = null;
+        if (include_previous_discussions && item.url) {
+          try {
+            previous_discussions =
+              (
+                await abortable(
+                  previous.find(item.url, { excludeId: id }),
+                  signal
+                )
+              )?.discussions ?? [];
+          } catch (e) {
+            previous_discussions_error = toFailure(e);
+            partial ||= cutOff(previous_discussions_error, signal);
+          }
+        }
+
+        return {
+          item: base,
+          article_content,
+          article_metadata,
+          article_details,
+          article_extractor,
+          article_error,
+          comments,
+          comments_next_cursor,
+          ...(comments_error ? { comments_error } : {}),
+          previous_discussions,
+          previous_discussions_error,
+          ...(partial ? { partial } : {}),
+        };
+      },
+    }),
+
+    analyze_hn_discussion: tool({
+      description:
+        "Analyze the comment tree of an HN item: themes with representative comment permalinks, the stance of each top-level subthread, back-and-forth chains that mark controversy, the most active participants and the share of dead/deleted comments.",
+      inputSchema: z.object({
+        id: z.number().int(),
+        max_depth: z.number().int().min(0).max(limits.maxDepth).default(5),
+        max_comments: z
+          .number()
+          .int()
+          .min(1)
+          .max(limits.maxComments)
+          .default(200),
+        max_comment_chars: z
+          .number()
+          .int()
+          .min(50)
+          .max(limits.maxCommentChars)
+          .default(400),
+      }),
+      execute: async ({ id, max_depth, max_comments, max_comment_chars }) => {
+        const ms = config.tools.summaryDeadlineMs;
+        const signal = deadline(ms);
+        let item: any;
+        try {
+          item = await api.getItem(id, { signal });
+        } catch (e) {
+          return cutOffResult(e, signal);
+        }
+        if (!item) return { error: "not_found", id } as const;
+        return analyzeDiscussion(api, item, {
+          maxDepth: max_depth,
+          maxComments: max_comments,
+          maxCommentChars: max_comment_chars,
+          model: model,
+          signal,
+          loadSignal: deadline(Math.round(ms * COLLECT_SHARE)),
+        });
+      },
+    }),
+
+    summarize_hn_tldr: tool({
+      description:
+        "Create TLDR bullet points for stories and summarize overall sentiment/feedback based on comments.",
+      inputSchema: z.object({
+        story_ids: z.array(z.number().int()).optional(),
+        feed: z
+          .enum(HN_FEEDS)
+          .default(prefs.default_feed ?? "top")
+          .describe("Feed to take stories from when story_ids is empty."),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(limits.maxStories)
+          .default(Math.min(prefs.story_count ?? 3, limits.maxStories)),
+        include_article: z.boolean().default(prefs.fetch_articles ?? true),
+        include_comments: z.boolean().default(prefs.include_comments ?? false),
+        max_depth: z
+          .number()
+          .int()
+          .min(0)
+          .max(limits.maxTldrDepth)
+          .default(Math.min(config.tldr.commentDepth, limits.maxTldrDepth)),
+        max_comments: z
+          .number()
+          .int()
+          .min(1)
+          .max(limits.maxTldrComments)
+          .default(Math.min(config.tldr.comments, limits.maxTldrComments)),
+        max_article_chars: z
+          .number()
+          .int()
+          .min(200)
+          .max(limits.maxTldrArticleChars)
+          .default(
+            Math.min(config.tldr.articleChars, limits.maxTldrArticleChars)
+          ),
+        max_comment_chars: z
+          .number()
+          .int()
+          .min(50)
+          .max(limits.maxCommentChars)
+          .default(Math.min(config.tldr.commentChars, limits.maxCommentChars)),
+        depth: z
+          .enum(["quick", "thorough"])
+          .default("quick")
+          .describe(
+            "quick: article excerpt and comment sample in one prompt. thorough: reads the whole article and thread (up to 1000 comments) through chunked map-reduce summarization; slower, use when asked for depth or for large threads. max_depth, max_comments and max_article_chars then only bound the fallback sample."
+          ),
+        format: z
+          .enum(["markdown", "json"])
+          .default("markdown")
+          .describe(
+            "json returns a schema-validated object (schema_version, stories with links, points, summary, sentiment, feedback)."
+          ),
+      }),
+      execute: async (args) => {
+        const {
+          story_ids,
+          feed,
+          limit,
+          include_article,
+          include_comments,
+          max_depth,
+          max_comments,
+          max_article_chars,
+          max_comment_chars,
+          depth,
+          format,
+        } = args;
+
+        const ms = config.tools.summaryDeadlineMs;
+        const signal = deadline(ms);
+        const collectSignal = deadline(Math.round(ms * COLLECT_SHARE));
+        let ids: number[] = story_ids ?? [];
+        let feedStatuses: ItemStatus[] = [];
+        if (!ids.length) {
+          let fromFeed: Awaited<ReturnType<typeof feedStories>>;
+          try {
+            fromFeed = await feedStories(
+              api,
+              feed,
+              limit,
+              prefs,
+              collectSignal
+            );
+          } catch (e) {
+            return {
+              format,
+              stories_count: 0,
+              output: null,
+              ...cutOffResult(e, collectSignal),
+            };
+          }
+          ids = fromFeed.items.map((i) => i.id);
+          // Loaded stories get their status from collection below.
+          feedStatuses = fromFeed.statuses.filter((s) => s.status !== "ok");
+        }
+
+        const { stories: compact, statuses } = await collectTldrStories(
+          { api: api, articles: articles },
+          ids,
+          {
+            include_article,
+            include_comments,
+            max_depth,
+            max_comments,
+            max_article_chars,
+            max_comment_chars,
+            depth,
+            model: model,
+            signal: collectSignal,
+          }
+        );
+        const report = partialReport([...feedStatuses, ...statuses]);
+
+        if (format === "json") {
+          const { output, warnings } = await generateTldrJson(compact, {
+            model: model,
+            signal,
+          });
+          return {
+            format,
+            stories_count: compact.length,
+            output,
+            ...(warnings.length ? { warnings } : {}),
+            ...report,
+          };
+        }
+
+        try {
+          const text = await generateTldr(compact, format, {
+            model: model,
+            signal,
+          });
+          return {
+            format,
+            stories_count: compact.length,
+            output: text,
+            ...report,
+          };
+        } catch (e) {
+          if (!signal.aborted) throw e;
+          // No summary in time; hand back what was collected instead.
+          return {
+            format,
+            stories_count: compact.length,
+            output: null,
+            error: abortError(signal).toJSON(),
+            stories: compact,
+            partial: true,
+            statuses: [...feedStatuses, ...statuses],
+          };
+        }
+      },
+    }),
+
+    fetch_hn_user: tool({
+      description:
+        "Look up an HN user by username: karma, account age, about text, and their most recent submissions and comments.",
+      inputSchema: z.object({
+        username: z
+          .string()
+          .describe("HN username, as in an item's 'by' field."),
+        recent_limit: z
+          .number()
+          .int()
+          .min(0)
+          .max(limits.maxUserItems)
+          .default(10),
+        max_comment_chars: z
+          .number()
+          .int()
+          .min(50)
+          .max(limits.maxCommentChars)
+          .default(300),
+      }),
+      execute: async ({ username, recent_limit, max_comment_chars }) => {
+        const signal = deadline(config.tools.deadlineMs);
+        let user: any;
+        try {
+          user = await api.getUser(username, { signal });
+        } catch (e) {
+          return cutOffResult(e, signal);
+        }
+        if (!user) return { error: "not_found", username } as const;
+
+        // `submitted` mixes stories and comments, newest first, and can
+        // hold tens of thousands of ids; only resolve a bounded window.
+        const submitted: number[] = Array.isArray(user.submitted)
+          ? user.submitted
+          : [];
+        const window = submitted.slice(0, recent_limit * 4);
+        const settled = await api.getBatchItemsSettled(window, {
+          signal,
+        });
+        const resolved = settled
+          .map((r) => (r.status === "fulfilled" ? r.value : null))
+          .filter((i) => i && !i.deleted && !i.dead);
+
+        const recent_submissions = resolved
+          .filter((i) => i.type !== "comment")
+          .slice(0, recent_limit)
+          .map((i) => normalizeItem(i));
+        const recent_comments = resolved
+          .filter((i) => i.type === "comment")
+          .slice(0, recent_limit)
+          .map((c) => ({
+            id: c.id ?? null,
+            time: c.time ?? null,
+            time_ago: timeAgo(c.time ?? null),
+            text: (stripHtml(c.text) || "").slice(0, max_comment_chars),
+            parent: c.parent ?? null,
+            comments_url: hnItemUrl(c.id),
+          }));
+
+        const created = (user.created as number | undefined) ?? null;
+        return {
+          user: {
+            id: user.id as string,
+            karma: (user.karma as number | undefined) ?? null,
+            created,
+            account_age: created
+              ? timeAgo(created)?.replace(/ ago$/, "") ?? null
+              : null,
+            about: stripHtml(user.about),
+            submitted_count: submitted.length,
+            profile_url: `https://news.ycombinator.com/user?id=${encodeURIComponent(
+              user.id
+            )}`,
+          },
+          recent_submissions,
+          recent_comments,
+          ...partialReport(settled.map((r, i) => itemStatus(window[i], r))),
+        };
+      },
+    }),
+
+    search_hn: tool({
+      description:
+        "Full-text search over HN stories and comments (Algolia HN Search). Filter by tags, author, date range and minimum points. Results use the same item shape as fetch_hn_top_articles.",
+      inputSchema: z.object({
+        query: z.string().describe("Search terms, e.g. 'sqlite'."),
+        tags: z
+          .array(z.enum(SEARCH_TAGS))
+          .optional()
+          .describe(
+            "Restrict to any of these item kinds: story, comment, ask_hn, show_hn."
+          ),
+        author: z.string().optional().describe("HN username."),
+        created_after: z
+          .string()
+          .optional()
+          .describe("ISO date or datetime, e.g. 2024-05-01."),
+        created_before: z
+          .string()
+          .optional()
+          .describe("ISO date or datetime, e.g. 2024-05-31."),
+        min_points: z.number().int().min(0).optional(),
+        sort: z.enum(["relevance", "date"]).default("relevance"),
+        page: z.number().int().min(0).default(0),
+        hits_per_page: z
+          .number()
+          .int()
+          .min(1)
+          .max(limits.maxSearchHits)
+          .default(20),
+      }),
+      execute: async ({
+        query,
+        tags,
+        author,
+        created_after,
+        created_before,
+        min_points,
+        sort,
+        page,
+        hits_per_page,
+      }) => {
+        const toUnix = (d: string | undefined) => {
+          if (!d) return undefined;
+          const ms = Date.parse(d);
+          if (Number.isNaN(ms)) throw new Error(`Invalid date: ${d}`);
+          return Math.floor(ms / 1000);
+        };
+        const createdAfter = toUnix(created_after);
+        const createdBefore = toUnix(created_before);
+        try {
+          return await abortable(
+            search.search({
+              query,
+              tags,
+              author,
+              createdAfter,
+              createdBefore,
+              minPoints: min_points,
+              sort,
+              page,
+              hitsPerPage: hits_per_page,
+            }),
+            deadline(config.tools.deadlineMs)
+          );
+        } catch (e) {
+          return { error: toFailure(e) };
+        }
+      },
+    }),
+
+    find_previous_discussions: tool({
+      description:
+        "Find earlier HN submissions of the same page, matched on a canonical URL (tracking parameters, www, scheme, trailing slashes and known mirrors normalized). Returns each submission's points, comment count and date.",
+      inputSchema: z.object({
+        url: z
+          .string()
+          .optional()
+          .describe("Page URL. Either url or id is required."),
+        id: z
+          .number()
+          .int()
+          .optional()
+          .describe("HN story id; its URL is used and it is excluded."),
+        sort_by: z.enum(["date", "comments", "points"]).default("date"),
+        limit: z.number().int().min(1).max(limits.maxDiscussions).default(10),
+      }),
+      execute: async ({ url, id, sort_by, limit }) => {
+        let target = url;
+        const signal = deadline(config.tools.deadlineMs);
+        if (!target && id != null) {
+          let item: any;
+          try {
+            item = await api.getItem(id, { signal });
+          } catch (e) {
+            return cutOffResult(e, signal);
+          }
+          if (!item) return { error: "not_found", id } as const;
+          target = item.url;
+          if (!target) return { error: "no_url", id } as const;
+        }
+        if (!target) return { error: "url_or_id_required" } as const;
+        try {
+          const found = await abortable(
+            previous.find(target, {
+              excludeId: id,
+              sortBy: sort_by,
+              limit,
+            }),
+            signal
+          );
+          return found ?? ({ error: "invalid_url", url: target } as const);
+        } catch (e) {
+          return { error: toFailure(e) };
+        }
+      },
+    }),
+  };
+};
@@ -0,0 +1,264 @@
+import {
+  HackerNewsAPI,
+  normalizeItem,
+  type HNFeed,
+  type NormalizedItem,
+} from "./hn-api";
+
+import { systemClock, type Clock } from "./clock";
+
+export { systemClock, type Clock };
+
+export type WatchEvent =
+  | { type: "new_story"; at: number; item: NormalizedItem }
+  | {
+      type: "new_comment";
+      at: number;
+      // The watched item the comment belongs to, at any depth.
+      watched_id: number;
+      comment: NormalizedItem & { parent: number | null };
+    }
+  | {
+      type: "score_threshold";
+      at: number;
+      item: NormalizedItem;
+      threshold: number;
+      previous_score: number;
+    }
+  | { type: "top_entered"; at: number; item: NormalizedItem; rank: number }
+  | { type: "top_left"; at: number; id: number; previous_rank: number }
+  | { type: "poll"; at: number }
+  | { type: "error"; at: number; error: string };
+
+export type WatchListener = (event: WatchEvent) => void | Promise<void>;
+
+// Polls maxitem.json and updates.json and turns the deltas into events.
+// The first poll only establishes a baseline so a restart does not replay
+// the whole front page as "new".
+export class HNWatcher {
+  private api: HackerNewsAPI;
+  private clock: Clock;
+  private intervalMs: number;
+  private topN: number;
+  private feed: HNFeed;
+  private scoreThresholds: number[];
+  private maxNewItemsPerPoll: number;
+  private watchTtlMs: number;
+
+  private listeners = new Set<WatchListener>();
+  private timer: unknown = null;
+  private polling = false;
+
+  private lastMaxItem: number | null = null;
+  private lastTop: number[] | null = null;
+  private scores = new Map<number, number>();
+  // Every known comment id under a watched item, mapped to that item.
+  private watchedTree = new Map<number, number>();
+  // Watched item -> when it stops being watched.
+  private watchedUntil = new Map<number, number>();
+
+  constructor(opts: {
+    api: HackerNewsAPI;
+    clock?: Clock;
+    intervalMs?: number;
+    topN?: number;
+    feed?: HNFeed;
+    scoreThresholds?: number[];
+    maxNewItemsPerPoll?: number;
+    // How long watch() follows an item's comments; threads rarely stay
+    // active longer than a couple of days.
+    watchTtlMs?: number;
+  }) {
+    this.api = opts.api;
+    this.clock = opts.clock ?? systemClock;
+    this.intervalMs = Math.max(5000, opts.intervalMs ?? 30 * 1000);
+    this.topN = Math.max(1, opts.topN ?? 30);
+    this.feed = opts.feed ?? "top";
+    this.scoreThresholds = [...(opts.scoreThresholds ?? [100, 250, 500])].sort(
+      (a, b) => a - b
+    );
+    this.maxNewItemsPerPoll = Math.max(1, opts.maxNewItemsPerPoll ?? 500);
+    this.watchTtlMs = opts.watchTtlMs ?? 2 * 24 * 3600 * 1000;
+  }
+
+  on(listener: WatchListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Watching an item again extends its TTL.
+  watch(id: number) {
+    this.watchedTree.set(id, id);
+    this.watchedUntil.set(id, this.clock.now() + this.watchTtlMs);
+  }
+
+  unwatch(id: number) {
+    if (!this.watchedUntil.delete(id)) return;
+    for (const [k, root] of this.watchedTree) {
+      if (root === id) this.watchedTree.delete(k);
+    }
+    if (!this.lastTop?.includes(id)) this.scores.delete(id);
+  }
+
+  private expireWatched() {
+    const t = this.clock.now();
+    for (const [id, until] of this.watchedUntil) {
+      if (until <= t) this.unwatch(id);
+    }
+  }
+
+  start() {
+    if (this.timer) return;
+    const tick = async () => {
+      await this.poll();
+      if (this.timer) this.timer = this.clock.setTimeout(tick, this.intervalMs);
+    };
+    this.timer = this.clock.setTimeout(tick, 0);
+  }
+
+  stop() {
+    if (!this.timer) return;
+    this.clock.clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // One polling round. Exposed so callers (and tests) can drive the watcher
+  // without timers.
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      this.expireWatched();
+      const updates = await this.api.getUpdates();
+      await this.api.invalidateItems(updates.items);
+      await this.api.invalidateUsers(updates.profiles);
+
+      await this.pollNewItems();
+      const top = await this.pollTop();
+
+      const tracked = new Set<number>(top);
+      for (const [id, root] of this.watchedTree) {
+        if (id === root) tracked.add(id);
+      }
+      const changed = updates.items.filter((id) => tracked.has(id));
+      await this.checkScores(changed);
+      await this.emit({ type: "poll", at: this.clock.now() });
+    } catch (e) {
+      await this.emit({
+        type: "error",
+        at: this.clock.now(),
+        error: e instanceof Error ? e.message : String(e),
+      });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollNewItems() {
+    const max = await this.api.getMaxItem();
+    const last = this.lastMaxItem;
+    this.lastMaxItem = max;
+    if (last === null || max <= last) return;
+
+    const from = Math.max(last + 1, max - this.maxNewItemsPerPoll + 1);
+    const ids: number[] = [];
+    for (let id = from; id <= max; id++) ids.push(id);
+    const items = await this.api.getBatchItems(ids);
+
+    // Ids ascend, so a reply is always seen after its parent.
+    for (const item of items) {
+      if (!item || item.deleted || item.dead) continue;
+      if (item.type === "story") {
+        await this.emit({
+          type: "new_story",
+          at: this.clock.now(),
+          item: normalizeItem(item),
+        });
+      } else if (item.type === "comment") {
+        const root = this.watchedTree.get(item.parent);
+        if (root === undefined) continue;
+        this.watchedTree.set(item.id, root);
+        await this.emit({
+          type: "new_comment",
+          at: this.clock.now(),
+          watched_id: root,
+          comment: { ...normalizeItem(item), parent: item.parent ?? null },
+        });
+      }
+    }
+  }
+
+  private async pollTop(): Promise<number[]> {
+    await this.api.invalidateFeed(this.feed);
+    const top = (await this.api.getStories(this.feed)).slice(0, this.topN);
+    const prev = this.lastTop;
+    this.lastTop = top;
+    if (!prev) {
+      const items = await this.api.getBatchItems(top);
+      for (const item of items) {
+        if (item?.id) this.scores.set(item.id, item.score ?? 0);
+      }
+      return top;
+    }
+
+    const prevRank = new Map(prev.map((id, i) => [id, i + 1]));
+    const entered = top.filter((id) => !prevRank.has(id));
+    const enteredItems = await this.api.getBatchItems(entered);
+    for (let i = 0; i < entered.length; i++) {
+      const item = enteredItems[i];
+      if (!item) continue;
+      if (!this.scores.has(item.id)) this.scores.set(item.id, item.score ?? 0);
+      await this.emit({
+        type: "top_entered",
+        at: this.clock.now(),
+        item: normalizeItem(item),
+        rank: top.indexOf(entered[i]) + 1,
+      });
+    }
+
+    const current = new Set(top);
+    for (const [id, rank] of prevRank) {
+      if (current.has(id)) continue;
+      if (!this.watchedTree.has(id)) this.scores.delete(id);
+      await this.emit({
+        type: "top_left",
+        at: this.clock.now(),
+        id,
+        previous_rank: rank,
+      });
+    }
+    return top;
+  }
+
+  private async checkScores(ids: number[]) {
+    if (!ids.length) return;
+    const items = await this.api.getBatchItems(ids);
+    for (const item of items) {
+      if (!item?.id || typeof item.score !== "number") continue;
+      const previous = this.scores.get(item.id);
+      this.scores.set(item.id, item.score);
+      if (previous === undefined) continue;
+      for (const threshold of this.scoreThresholds) {
+        if (previous < threshold && item.score >= threshold) {
+          await this.emit({
+            type: "score_threshold",
+            at: this.clock.now(),
+            item: normalizeItem(item),
+            threshold,
+            previous_score: previous,
+          });
+        }
+      }
+    }
+  }
+
+  private async emit(event: WatchEvent) {
+    for (const l of this.listeners) {
+      try {
+        await l(event);
+      } catch {
+        // A failing listener must not stop the others or the poll loop.
+      }
+    }
+  }
+}
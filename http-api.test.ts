@@ -0,0 +1,62 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { encodeCommentCursor } from "./comments";
+import { DigestStore } from "./digests";
+import { HackerNewsAPI } from "./hn-api";
+import { HttpClient } from "./http";
+import { HttpApi } from "./http-api";
+import { FixtureTransport } from "./record-replay";
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/hn", import.meta.url));
+
+let dataDir: string;
+let api: HttpApi;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), "http-api-"));
+  const transport = new FixtureTransport({ mode: "replay", dir: FIXTURES });
+  api = new HttpApi({
+    api: new HackerNewsAPI({
+      http: new HttpClient({ fetch: transport.fetch, retries: 0 }),
+    }),
+    digests: new DigestStore({ path: join(dataDir, "digests.json") }),
+    limits: {
+      maxApiStories: 100,
+      maxDepth: 3,
+      maxComments: 500,
+      maxApiRuns: 50,
+    },
+  });
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+const get = async (path: string) => {
+  const res = (await api.handle(new Request(`http://localhost${path}`)))!;
+  return { status: res.status, body: await res.json() };
+};
+
+describe("GET /api/items/:id", () => {
+  it("resumes a thread from a cursor", async () => {
+    const cursor = encodeCommentCursor({ root: 101, groups: [[101, 1, 0]] });
+    const { status, body } = await get(`/api/items/101?cursor=${cursor}`);
+
+    expect(status).toBe(200);
+    expect(body.comments.map((c: { id: number }) => c.id)).toEqual([202]);
+  });
+
+  it("refuses cursors with more groups than the depth limit allows", async () => {
+    const groups: [number, number, number][] = [];
+    for (let i = 0; i < 5; i++) groups.push([201, 0, 1]);
+    const cursor = encodeCommentCursor({ root: 101, groups });
+    const { status, body } = await get(`/api/items/101?cursor=${cursor}`);
+
+    expect(status).toBe(400);
+    expect(body.error.code).toBe("invalid_cursor");
+  });
+});
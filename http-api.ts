@@ -0,0 +1,356 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { loadComments, parseCommentCursor, type CommentNode } from "./comments";
+import { DigestStore, type StoredDigestRun } from "./digests";
+import { atomFeed, jsonFeed, rssFeed, type FeedInfo } from "./feeds";
+import {
+  HN_FEEDS,
+  HackerNewsAPI,
+  normalizeItem,
+  timeAgo,
+  type NormalizedItem,
+} from "./hn-api";
+import { toFailure } from "./http";
+
+// Read-only JSON API and digest feeds served from the agent's webhook:
+//
+//   GET /api/stories?feed=top&limit=30
+//   GET /api/items/:id?comments=true&depth=2&limit=100&cursor=
+//   GET /api/digest?id=
+//   GET /feeds/digest.rss | digest.atom | digest.json  (?id= to pick a digest)
+//
+// Items use the same normalized shape as the tools. Errors are JSON
+// `{ error: { code, message } }` with a matching status.
+//
+// Digest runs come from every workspace and channel that has a digest,
+// private channels included, so the digest routes are only served when a
+// token is configured.
+
+// Upper bounds for query parameters (config `limits`).
+export type ApiLimits = {
+  maxApiStories: number;
+  maxDepth: number;
+  maxComments: number;
+  maxApiRuns: number;
+};
+
+const DEFAULT_API_LIMITS: ApiLimits = {
+  maxApiStories: 100,
+  maxDepth: 10,
+  maxComments: 500,
+  maxApiRuns: 50,
+};
+
+const apiQueries = (limits: ApiLimits) => ({
+  stories: z.object({
+    feed: z.enum(HN_FEEDS).default("top"),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(limits.maxApiStories)
+      .default(Math.min(30, limits.maxApiStories)),
+  }),
+  item: z.object({
+    comments: z.stringbool().default(false),
+    depth: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .max(limits.maxDepth)
+      .default(Math.min(2, limits.maxDepth)),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(limits.maxComments)
+      .default(Math.min(100, limits.maxComments)),
+    cursor: z.string().optional(),
+  }),
+  digest: z.object({
+    id: z.string().optional(),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(limits.maxApiRuns)
+      .default(Math.min(20, limits.maxApiRuns)),
+  }),
+});
+
+type ItemQuery = z.output<ReturnType<typeof apiQueries>["item"]>;
+
+const isDigestPath = (path: string) =>
+  path === "/api/digest" || path.startsWith("/feeds/");
+
+// Seconds clients and proxies may reuse a response.
+const MAX_AGE = { stories: 60, item: 60, digest: 300 };
+
+class ApiError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const parseQuery = <T extends z.ZodType>(schema: T, url: URL): z.output<T> => {
+  const res = schema.safeParse(Object.fromEntries(url.searchParams));
+  if (!res.success) {
+    const issue = res.error.issues[0];
+    throw new ApiError(
+      400,
+      "invalid_parameter",
+      `${issue.path.join(".") || "query"}: ${issue.message}`
+    );
+  }
+  return res.data;
+};
+
+// Stored items were normalized when they were fetched; refresh the age.
+const fresh = (item: NormalizedItem): NormalizedItem => ({
+  ...item,
+  time_ago: timeAgo(item.time),
+});
+
+const errorResponse = (status: number, code: string, message: string) =>
+  new Response(JSON.stringify({ error: { code, message } }), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+
+type Body = {
+  body: string;
+  contentType: string;
+  maxAge: number;
+  lastModified?: number;
+};
+
+export class HttpApi {
+  private api: HackerNewsAPI;
+  private digests: DigestStore;
+  private token: string | undefined;
+  private queries: ReturnType<typeof apiQueries>;
+  private maxDepth: number;
+
+  constructor(opts: {
+    api: HackerNewsAPI;
+    digests: DigestStore;
+    // When set, requests need `Authorization: Bearer <token>` or `?token=`.
+    token?: string;
+    limits?: ApiLimits;
+  }) {
+    this.api = opts.api;
+    this.digests = opts.digests;
+    this.token = opts.token || undefined;
+    const limits = opts.limits ?? DEFAULT_API_LIMITS;
+    this.queries = apiQueries(limits);
+    this.maxDepth = limits.maxDepth;
+  }
+
+  // Returns null for paths outside /api/ and /feeds/ so other handlers can
+  // take the request.
+  async handle(request: Request): Promise<Response | null> {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/\/+$/, "");
+    if (!path.startsWith("/api/") && !path.startsWith("/feeds/")) return null;
+
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      const res = errorResponse(
+        405,
+        "method_not_allowed",
+        "Only GET is supported."
+      );
+      res.headers.set("Allow", "GET, HEAD");
+      return res;
+    }
+    if (!this.token && isDigestPath(path)) {
+      return errorResponse(
+        403,
+        "token_required",
+        "Digest routes are disabled until HN_API_TOKEN is set."
+      );
+    }
+    if (!this.authorized(request, url)) {
+      return errorResponse(401, "unauthorized", "Missing or invalid token.");
+    }
+
+    let out: Body;
+    try {
+      out = await this.route(path, url);
+    } catch (e) {
+      if (e instanceof ApiError)
+        return errorResponse(e.status, e.code, e.message);
+      const failure = toFailure(e);
+      return errorResponse(
+        failure.kind === "timeout" ? 504 : 502,
+        "upstream_error",
+        failure.message
+      );
+    }
+
+    const etag = `"${createHash("sha1")
+      .update(out.body)
+      .digest("base64url")
+      .slice(0, 27)}"`;
+    const headers = new Headers({
+      "Content-Type": out.contentType,
+      // Shared caches must not hand a token-protected response to others.
+      "Cache-Control": `${this.token ? "private" : "public"}, max-age=${
+        out.maxAge
+      }`,
+      ETag: etag,
+    });
+    if (out.lastModified) {
+      headers.set("Last-Modified", new Date(out.lastModified).toUTCString());
+    }
+    const match = request.headers.get("if-none-match");
+    if (
+      match &&
+      match.split(/\s*,\s*/).some((t) => t.replace(/^W\//, "") === etag)
+    ) {
+      return new Response(null, { status: 304, headers });
+    }
+    return new Response(request.method === "HEAD" ? null : out.body, {
+      status: 200,
+      headers,
+    });
+  }
+
+  private authorized(request: Request, url: URL) {
+    if (!this.token) return true;
+    const given =
+      request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ??
+      url.searchParams.get("token") ??
+      "";
+    const a = Buffer.from(given);
+    const b = Buffer.from(this.token);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  private async route(path: string, url: URL): Promise<Body> {
+    if (path === "/api/stories") {
+      const q = parseQuery(this.queries.stories, url);
+      return this.json(await this.stories(q.feed, q.limit), MAX_AGE.stories);
+    }
+    const item = path.match(/^\/api\/items\/(\d+)$/);
+    if (item) {
+      const q = parseQuery(this.queries.item, url);
+      return this.json(await this.item(Number(item[1]), q), MAX_AGE.item);
+    }
+    if (path === "/api/digest") {
+      const q = parseQuery(this.queries.digest, url);
+      const [run] = this.runs(q.id, 1);
+      return {
+        ...this.json(
+          {
+            digest_id: run.digest_id,
+            feed: run.feed,
+            at: new Date(run.at).toISOString(),
+            text: run.text,
+            stories: run.stories,
+          },
+          MAX_AGE.digest
+        ),
+        lastModified: run.at,
+      };
+    }
+    const feed = path.match(/^\/feeds\/digest\.(rss|atom|json)$/);
+    if (feed) {
+      const q = parseQuery(this.queries.digest, url);
+      const runs = this.runs(q.id, q.limit);
+      const self = new URL(url);
+      self.searchParams.delete("token");
+      const info: FeedInfo = {
+        title: "Hacker News digest",
+        self: self.toString(),
+        home: "https://news.ycombinator.com/",
+      };
+      const body =
+        feed[1] === "rss"
+          ? {
+              body: rssFeed(info, runs),
+              contentType: "application/rss+xml; charset=utf-8",
+            }
+          : feed[1] === "atom"
+          ? {
+              body: atomFeed(info, runs),
+              contentType: "application/atom+xml; charset=utf-8",
+            }
+          : {
+              body: JSON.stringify(jsonFeed(info, runs)),
+              contentType: "application/feed+json; charset=utf-8",
+            };
+      return { ...body, maxAge: MAX_AGE.digest, lastModified: runs[0].at };
+    }
+    throw new ApiError(404, "not_found", `No route for ${path}.`);
+  }
+
+  private json(value: unknown, maxAge: number): Body {
+    return {
+      body: JSON.stringify(value),
+      contentType: "application/json; charset=utf-8",
+      maxAge,
+    };
+  }
+
+  private async stories(feed: (typeof HN_FEEDS)[number], limit: number) {
+    const ids = (await this.api.getStories(feed)).slice(0, limit);
+    const items = await this.api.getBatchItems(ids);
+    return {
+      feed,
+      stories: items
+        .filter((i) => i && !i.deleted && !i.dead)
+        .map((i) => normalizeItem(i)),
+    };
+  }
+
+  private async item(id: number, q: ItemQuery) {
+    const raw = await this.api.getItem(id);
+    if (!raw) throw new ApiError(404, "not_found", `HN item ${id} not found.`);
+
+    const cursor = q.cursor
+      ? parseCommentCursor(q.cursor, id, this.maxDepth)
+      : null;
+    if (q.cursor && !cursor) {
+      throw new ApiError(
+        400,
+        "invalid_cursor",
+        "cursor: not valid for this item"
+      );
+    }
+    let comments: CommentNode[] | null = null;
+    let comments_next_cursor: string | null = null;
+    if ((q.comments || cursor) && Array.isArray(raw.kids) && raw.kids.length) {
+      const page = await loadComments(this.api, raw, {
+        maxDepth: q.depth,
+        maxComments: q.limit,
+        cursor,
+      });
+      comments = page.comments;
+      comments_next_cursor = page.next_cursor;
+    }
+    return { item: normalizeItem(raw), comments, comments_next_cursor };
+  }
+
+  private runs(digestId: string | undefined, limit: number): StoredDigestRun[] {
+    const runs = this.digests.runs({ digestId, limit });
+    if (!runs.length) {
+      throw new ApiError(
+        404,
+        "not_found",
+        digestId
+          ? `Digest ${digestId} hasn't run yet.`
+          : "No digest has run yet."
+      );
+    }
+    return runs.map((r) => ({ ...r, stories: r.stories.map(fresh) }));
+  }
+}
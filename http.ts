@@ -0,0 +1,491 @@
+import { DEFAULT_USER_AGENT } from "./config";
+import {
+  fetch as undiciFetch,
+  type Dispatcher,
+  type RequestInit as UndiciRequestInit,
+} from "undici";
+import type { UrlPolicy } from "./url-safety";
+
+export type HttpErrorKind =
+  | "timeout"
+  | "http_status"
+  | "too_large"
+  | "blocked"
+  | "parse_error"
+  | "network"
+  | "aborted";
+
+// Every failure from HttpClient is one of these, so callers can report why a
+// fetch failed instead of a bare "error".
+export class HttpError extends Error {
+  kind: HttpErrorKind;
+  url: string;
+  status: number | null;
+  // From a Retry-After header, when the server sent one.
+  retryAfterMs: number | null = null;
+
+  constructor(
+    kind: HttpErrorKind,
+    url: string,
+    message: string,
+    status: number | null = null
+  ) {
+    super(message);
+    this.name = "HttpError";
+    this.kind = kind;
+    this.url = url;
+    this.status = status;
+  }
+
+  toJSON() {
+    return {
+      kind: this.kind,
+      message: this.message,
+      ...(this.status !== null ? { status: this.status } : {}),
+    };
+  }
+}
+
+export type FetchFailure = ReturnType<HttpError["toJSON"]>;
+
+export type FetchResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: FetchFailure };
+
+export const toFailure = (e: unknown, url = ""): FetchFailure =>
+  e instanceof HttpError
+    ? e.toJSON()
+    : new HttpError(
+        "network",
+        url,
+        e instanceof Error ? e.message : String(e)
+      ).toJSON();
+
+// A deadline (AbortSignal.timeout) reads as a timeout, anything else as a
+// cancellation.
+export const abortError = (signal: AbortSignal, url = "") =>
+  signal.reason instanceof Error && signal.reason.name === "TimeoutError"
+    ? new HttpError("timeout", url, "Deadline exceeded")
+    : new HttpError("aborted", url, "Cancelled");
+
+export const throwIfAborted = (signal: AbortSignal | undefined, url = "") => {
+  if (signal?.aborted) throw abortError(signal, url);
+};
+
+// Settles like `promise`, or rejects as soon as `signal` aborts. The work
+// behind the promise carries on; use this where it is shared with other
+// callers, such as a deduplicated fetch.
+export const abortable = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError(signal));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (v) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(v);
+      },
+      (e) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(e);
+      }
+    );
+  });
+};
+
+export type HttpResponse = {
+  url: string;
+  status: number;
+  headers: Headers;
+  contentType: string | null;
+  body: Uint8Array;
+};
+
+export type RequestOptions = {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  maxBytes?: number;
+  retries?: number;
+  // Hand a 304 back as an empty response instead of an http_status error.
+  // Set by callers that send If-None-Match / If-Modified-Since.
+  allowNotModified?: boolean;
+  // Accepted response media types ("text/*" matches any text type). Anything
+  // else is refused before the body is read; a missing Content-Type passes.
+  contentTypes?: string[];
+  // Cancels the request, including retries and backoff.
+  signal?: AbortSignal;
+};
+
+type HostState = {
+  active: number;
+  queue: (() => void)[];
+  nextStart: number;
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Never sent on to another origin: a redirect from the GitHub API to a
+// download host must not carry the token.
+const CREDENTIAL_HEADERS = new Set([
+  "authorization",
+  "cookie",
+  "proxy-authorization",
+]);
+
+const withoutCredentials = (headers: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) => !CREDENTIAL_HEADERS.has(name.toLowerCase())
+    )
+  );
+
+const mediaType = (contentType: string | null) =>
+  (contentType ?? "").split(";")[0].trim().toLowerCase();
+
+const typeAllowed = (type: string, allowed: string[]) =>
+  allowed.some((a) =>
+    a.endsWith("/*") ? type.startsWith(a.slice(0, -1)) : type === a
+  );
+
+const checkScheme = (url: string) => {
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    throw new HttpError("blocked", url, `Invalid URL: ${url}`);
+  }
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new HttpError("blocked", url, `Unsupported scheme ${protocol}`);
+  }
+};
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+};
+
+// Requests go through undici's own fetch, so the dispatcher UrlPolicy.pin
+// builds from the same package is honoured. Node's global fetch bundles its
+// own copy of undici, which may not accept it.
+export const defaultFetch = (url: string, init: RequestInit) =>
+  undiciFetch(url, init as UndiciRequestInit) as unknown as Promise<Response>;
+
+// Shared HTTP layer: per-host timeouts, concurrency and pacing, retries with
+// exponential backoff on 5xx/429/network errors, and a response size cap.
+// Redirects are followed by hand so each hop can be checked against the
+// optional UrlPolicy, and credentials stop once a hop changes origin.
+export class HttpClient {
+  private fetchImpl: (url: string, init: RequestInit) => Promise<Response>;
+  private userAgent: string;
+  private timeoutMs: number;
+  private hostTimeouts: Record<string, number>;
+  private retries: number;
+  private backoffMs: number;
+  private maxBytes: number;
+  private perHostConcurrency: number;
+  private perHostIntervalMs: number;
+  private maxRedirects: number;
+  private policy: UrlPolicy | null;
+  private hosts = new Map<string, HostState>();
+
+  constructor(opts?: {
+    fetch?: (url: string, init: RequestInit) => Promise<Response>;
+    userAgent?: string;
+    timeoutMs?: number;
+    hostTimeouts?: Record<string, number>;
+    retries?: number;
+    backoffMs?: number;
+    maxBytes?: number;
+    perHostConcurrency?: number;
+    perHostIntervalMs?: number;
+    maxRedirects?: number;
+    // Checked before every request and redirect; set for untrusted URLs.
+    policy?: UrlPolicy;
+  }) {
+    this.fetchImpl = opts?.fetch ?? defaultFetch;
+    this.userAgent = opts?.userAgent ?? DEFAULT_USER_AGENT;
+    this.timeoutMs = opts?.timeoutMs ?? 8000;
+    this.hostTimeouts = opts?.hostTimeouts ?? {};
+    this.retries = Math.max(0, opts?.retries ?? 2);
+    this.backoffMs = opts?.backoffMs ?? 300;
+    this.maxBytes = opts?.maxBytes ?? 5 * 1024 * 1024;
+    this.perHostConcurrency = Math.max(1, opts?.perHostConcurrency ?? 6);
+    this.perHostIntervalMs = Math.max(0, opts?.perHostIntervalMs ?? 0);
+    this.maxRedirects = Math.max(0, opts?.maxRedirects ?? 5);
+    this.policy = opts?.policy ?? null;
+  }
+
+  async request(url: string, opts?: RequestOptions): Promise<HttpResponse> {
+    checkScheme(url);
+
+    const retries = opts?.retries ?? this.retries;
+    for (let attempt = 0; ; attempt++) {
+      throwIfAborted(opts?.signal, url);
+      try {
+        return await this.withHostSlot(url, () => this.once(url, opts));
+      } catch (e) {
+        const err =
+          e instanceof HttpError
+            ? e
+            : new HttpError(
+                "network",
+                url,
+                e instanceof Error ? e.message : String(e)
+              );
+        if (opts?.signal?.aborted) throw abortError(opts.signal, url);
+        if (attempt >= retries || !this.retryable(err)) throw err;
+        const backoff =
+          err.retryAfterMs ??
+          this.backoffMs * 2 ** attempt * (1 + Math.random() * 0.25);
+        await abortable(sleep(Math.min(backoff, 10 * 1000)), opts?.signal);
+      }
+    }
+  }
+
+  async getText(url: string, opts?: RequestOptions) {
+    const res = await this.request(url, opts);
+    return { ...res, text: new TextDecoder().decode(res.body) };
+  }
+
+  async getJSON<T>(url: string, opts?: RequestOptions): Promise<T> {
+    const res = await this.getText(url, {
+      ...opts,
+      headers: { Accept: "application/json", ...opts?.headers },
+    });
+    try {
+      return JSON.parse(res.text) as T;
+    } catch {
+      throw new HttpError(
+        "parse_error",
+        url,
+        "Response was not valid JSON",
+        res.status
+      );
+    }
+  }
+
+  private retryable(e: HttpError) {
+    if (e.kind === "network" || e.kind === "timeout") return true;
+    return (
+      e.kind === "http_status" &&
+      e.status !== null &&
+      (e.status >= 500 || e.status === 429)
+    );
+  }
+
+  private async once(url: string, opts?: RequestOptions) {
+    const host = hostOf(url);
+    const timeoutMs =
+      opts?.timeoutMs ?? this.hostTimeouts[host] ?? this.timeoutMs;
+    const maxBytes = opts?.maxBytes ?? this.maxBytes;
+    const signal = opts?.signal;
+    throwIfAborted(signal, url);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const pinned: Dispatcher[] = [];
+    try {
+      let res: Response;
+      // The timeout covers the whole redirect chain.
+      let current = url;
+      let headers: Record<string, string> = {
+        "User-Agent": this.userAgent,
+        ...opts?.headers,
+      };
+      for (let hops = 0; ; hops++) {
+        try {
+          // The lookup behind the check counts against the timeout too.
+          const dispatcher = this.policy
+            ? await this.policy.pin(current, controller.signal)
+            : null;
+          if (dispatcher) pinned.push(dispatcher);
+          res = await this.fetchImpl(current, {
+            headers,
+            signal: controller.signal,
+            redirect: "manual",
+            ...(dispatcher ? { dispatcher } : {}),
+          });
+        } catch (e) {
+          if (signal?.aborted) throw abortError(signal, url);
+          if (controller.signal.aborted) {
+            throw new HttpError(
+              "timeout",
+              url,
+              `Timed out after ${timeoutMs}ms`
+            );
+          }
+          throw e;
+        }
+        const location = res.headers.get("location");
+        if (!REDIRECT_STATUSES.has(res.status) || !location) break;
+        res.body?.cancel().catch(() => {});
+        if (hops >= this.maxRedirects) {
+          throw new HttpError(
+            "blocked",
+            url,
+            `More than ${this.maxRedirects} redirects`,
+            res.status
+          );
+        }
+        let next: URL;
+        try {
+          next = new URL(location, current);
+        } catch {
+          throw new HttpError(
+            "http_status",
+            url,
+            `Invalid redirect to ${location}`,
+            res.status
+          );
+        }
+        if (next.origin !== new URL(current).origin) {
+          headers = withoutCredentials(headers);
+        }
+        current = next.toString();
+        checkScheme(current);
+      }
+
+      if (res.status === 304 && opts?.allowNotModified) {
+        res.body?.cancel().catch(() => {});
+        return {
+          url: current,
+          status: res.status,
+          headers: res.headers,
+          contentType: res.headers.get("content-type"),
+          body: new Uint8Array(),
+        };
+      }
+
+      if (!res.ok) {
+        res.body?.cancel().catch(() => {});
+        const err = new HttpError(
+          "http_status",
+          url,
+          `HTTP ${res.status} ${res.statusText}`.trim(),
+          res.status
+        );
+        const retryAfter = Number(res.headers.get("retry-after"));
+        if (Number.isFinite(retryAfter) && retryAfter > 0)
+          err.retryAfterMs = retryAfter * 1000;
+        throw err;
+      }
+
+      const declared = Number(res.headers.get("content-length"));
+      if (Number.isFinite(declared) && declared > maxBytes) {
+        res.body?.cancel().catch(() => {});
+        throw new HttpError(
+          "too_large",
+          url,
+          `Response is ${declared} bytes (limit ${maxBytes})`,
+          res.status
+        );
+      }
+
+      const contentType = res.headers.get("content-type");
+      const type = mediaType(contentType);
+      if (opts?.contentTypes && type && !typeAllowed(type, opts.contentTypes)) {
+        res.body?.cancel().catch(() => {});
+        throw new HttpError(
+          "blocked",
+          url,
+          `Content type ${type} is not allowed`,
+          res.status
+        );
+      }
+
+      const body = await this.readBody(res, url, maxBytes, controller, signal);
+      return {
+        url: current,
+        status: res.status,
+        headers: res.headers,
+        contentType,
+        body,
+      };
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      for (const d of pinned) d.close().catch(() => {});
+    }
+  }
+
+  private async readBody(
+    res: Response,
+    url: string,
+    maxBytes: number,
+    controller: AbortController,
+    signal: AbortSignal | undefined
+  ): Promise<Uint8Array> {
+    if (!res.body) return new Uint8Array();
+    const reader = res.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > maxBytes) {
+          reader.cancel().catch(() => {});
+          throw new HttpError(
+            "too_large",
+            url,
+            `Response exceeded ${maxBytes} bytes`,
+            res.status
+          );
+        }
+        chunks.push(value);
+      }
+    } catch (e) {
+      if (e instanceof HttpError) throw e;
+      if (signal?.aborted) throw abortError(signal, url);
+      if (controller.signal.aborted) {
+        throw new HttpError("timeout", url, "Timed out reading the response");
+      }
+      throw e;
+    }
+    const out = new Uint8Array(size);
+    let offset = 0;
+    for (const c of chunks) {
+      out.set(c, offset);
+      offset += c.byteLength;
+    }
+    return out;
+  }
+
+  private async withHostSlot<T>(url: string, fn: () => Promise<T>) {
+    const host = hostOf(url);
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, queue: [], nextStart: 0 };
+      this.hosts.set(host, state);
+    }
+    if (state.active >= this.perHostConcurrency) {
+      // The finishing request hands its slot over without releasing it.
+      await new Promise<void>((r) => state!.queue.push(r));
+    } else {
+      state.active++;
+    }
+    try {
+      const wait = state.nextStart - Date.now();
+      state.nextStart =
+        Math.max(Date.now(), state.nextStart) + this.perHostIntervalMs;
+      if (wait > 0) await sleep(wait);
+      return await fn();
+    } finally {
+      const next = state.queue.shift();
+      if (next) next();
+      else if (--state.active === 0 && state.nextStart <= Date.now())
+        this.hosts.delete(host);
+    }
+  }
+}
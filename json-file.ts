@@ -0,0 +1,37 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+// Where the agent keeps state that must outlive a restart.
+export const dataPath = (name: string) =>
+  join(process.env.HN_DATA_DIR ?? ".hn-data", name);
+
+// A small JSON document on disk, loaded once and rewritten atomically on
+// save(). Good for config-sized state; not a database.
+export class JsonFile<T> {
+  data: T;
+  private path: string;
+
+  constructor(path: string, initial: () => T) {
+    this.path = path;
+    this.data = this.load() ?? initial();
+  }
+
+  private load(): T | null {
+    try {
+      return JSON.parse(readFileSync(this.path, "utf8")) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  save() {
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.tmp`;
+      writeFileSync(tmp, JSON.stringify(this.data, null, 2));
+      renameSync(tmp, this.path);
+    } catch {
+      // Keep serving from memory if the disk is read-only.
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { generateText, type LanguageModel } from "ai";
+import { flattenComments, type CommentNode } from "./comments";
+import { DEFAULT_MODEL } from "./config";
+import { pMap } from "./hn-api";
+
+// Hierarchical summarization for inputs too long for one prompt: split into
+// chunks, summarize the chunks in parallel (map), then merge the notes in
+// batches until one summary is left (reduce).
+
+export const MAP_CHUNK_CHARS = 12000;
+const REDUCE_BATCH_CHARS = 24000;
+
+// Rough count, good enough for budgeting: about 4 characters per token for
+// English text.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Splits on paragraph boundaries, then on sentences, and hard-cuts only what
+// is left over.
+export const chunkText = (text: string, maxChars = MAP_CHUNK_CHARS) => {
+  const chunks: string[] = [];
+  let current = "";
+  const push = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = "";
+  };
+  const pieces = text
+    .split(/\n{2,}/)
+    .flatMap((p) => (p.length <= maxChars ? [p] : p.split(/(?<=[.!?])\s+/)))
+    .flatMap((p) => {
+      const out: string[] = [];
+      for (let i = 0; i < p.length; i += maxChars)
+        out.push(p.slice(i, i + maxChars));
+      return out;
+    });
+  for (const p of pieces) {
+    if (current && current.length + p.length + 2 > maxChars) push();
+    current = current ? `${current}\n\n${p}` : p;
+  }
+  push();
+  return chunks;
+};
+
+const commentLine = (c: CommentNode, maxChars: number) =>
+  `${"  ".repeat(c.depth)}[${c.id}] ${c.by ?? "unknown"}: ${(c.text ?? "")
+    .replace(/\s+/g, " ")
+    .slice(0, maxChars)}`;
+
+// Packs whole top-level subthreads into chunks so replies stay next to what
+// they answer; a subthread bigger than a chunk is split between comments.
+export const chunkComments = (
+  roots: CommentNode[],
+  maxChars = MAP_CHUNK_CHARS,
+  maxCommentChars = 2000
+) => {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+  const push = () => {
+    if (current.length) chunks.push(current.join("\n"));
+    current = [];
+    size = 0;
+  };
+  for (const root of roots) {
+    const lines = flattenComments([root])
+      .filter((c) => c.text)
+      .map((c) => commentLine(c, maxCommentChars));
+    const total = lines.reduce((n, l) => n + l.length + 1, 0);
+    if (size && size + total > maxChars) push();
+    for (const line of lines) {
+      if (size && size + line.length + 1 > maxChars) push();
+      current.push(line);
+      size += line.length + 1;
+    }
+  }
+  push();
+  return chunks;
+};
+
+// Keeps chunks in order until the token budget runs out.
+export const withinBudget = (chunks: string[], tokens: number) => {
+  const kept: string[] = [];
+  let used = 0;
+  for (const c of chunks) {
+    const t = estimateTokens(c);
+    if (used + t > tokens) break;
+    kept.push(c);
+    used += t;
+  }
+  return kept;
+};
+
+export const summarizeChunks = async (
+  chunks: string[],
+  opts: {
+    // What the notes should capture, e.g. "the article's main claims".
+    focus: string;
+    context?: string;
+    model?: LanguageModel;
+    concurrency?: number;
+    signal?: AbortSignal;
+  }
+): Promise<string> => {
+  const model = opts.model ?? DEFAULT_MODEL;
+  const concurrency = opts.concurrency ?? 4;
+  const context = opts.context ? `Context: ${opts.context}\n` : "";
+  if (!chunks.length) return "";
+
+  let notes = await pMap(
+    chunks,
+    async (chunk, i, signal) => {
+      const { text } = await generateText({
+        model,
+        system: `${context}You are taking notes on part ${i + 1} of ${
+          chunks.length
+        } of a longer text. Write 3–8 terse bullets covering ${
+          opts.focus
+        }. Keep concrete details (names, numbers, claims). Be neutral and factual; avoid speculation.`,
+        prompt: chunk,
+        abortSignal: signal,
+      });
+      return text.trim();
+    },
+    concurrency,
+    opts.signal
+  );
+
+  // Merge notes a batch at a time until they fit in one final prompt.
+  while (notes.length > 1) {
+    const batches: string[][] = [[]];
+    let size = 0;
+    for (const n of notes) {
+      // At least two notes per batch, so every round shrinks the list.
+      const batch = batches[batches.length - 1];
+      if (batch.length >= 2 && size + n.length > REDUCE_BATCH_CHARS) {
+        batches.push([]);
+        size = 0;
+      }
+      batches[batches.length - 1].push(n);
+      size += n.length;
+    }
+    const last = batches.length === 1;
+    notes = await pMap(
+      batches,
+      async (batch, _i, signal) => {
+        const { text } = await generateText({
+          model,
+          system: `${context}Merge these notes, taken on consecutive parts of one text, into ${
+            last ? "a single set of 5–10" : "3–8"
+          } bullets covering ${
+            opts.focus
+          }. Drop repetition, keep concrete details, and keep points that appear in only one part if they matter.`,
+          prompt: batch.join("\n\n---\n\n"),
+          abortSignal: signal,
+        });
+        return text.trim();
+      },
+      concurrency,
+      opts.signal
+    );
+  }
+  return notes[0];
+};
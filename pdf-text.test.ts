@@ -0,0 +1,75 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { extractPdfText } from "./pdf-text";
+
+const pdf = (...parts: (string | Buffer)[]) =>
+  Buffer.concat(
+    parts.map((p) => (typeof p === "string" ? Buffer.from(p, "latin1") : p))
+  );
+
+// One object holding a content stream, compressed or not.
+const streamObject = (n: number, content: string, flate = false) => {
+  const data = flate ? deflateSync(Buffer.from(content, "latin1")) : content;
+  const filter = flate ? " /Filter /FlateDecode" : "";
+  return pdf(
+    `${n} 0 obj\n<< /Length ${data.length}${filter} >>\nstream\n`,
+    data,
+    "\nendstream\nendobj\n"
+  );
+};
+
+const PAGE =
+  "BT /F1 12 Tf 72 720 Td (Replication keeps a second copy of the data) Tj " +
+  "0 -14 Td (close to the primary at all times.) Tj ET";
+
+describe("extractPdfText", () => {
+  it("reads text from plain and Flate streams and the title", () => {
+    const res = extractPdfText(
+      pdf(
+        "%PDF-1.4\n",
+        "1 0 obj\n<< /Title (Notes on replication) >>\nendobj\n",
+        streamObject(2, PAGE, true),
+        pdf(
+          "3 0 obj\n<< /Length 5 /Subtype /Image /DecodeParms << /Predictor 12 >> >>\nstream\n",
+          "(x)Tj",
+          "\nendstream\nendobj\n"
+        ),
+        streamObject(4, "BT (Second page text goes here.) Tj ET")
+      )
+    );
+
+    expect(res).toEqual({
+      title: "Notes on replication",
+      text:
+        "Replication keeps a second copy of the data close to the primary at all times.\n\n" +
+        "Second page text goes here.",
+    });
+  });
+
+  it("finishes quickly on input built to make a scan backtrack", () => {
+    // No "<<" is ever closed by ">> stream", and no title by ")".
+    const hostile = pdf(
+      "%PDF-1.4\n",
+      "<<".repeat(200_000),
+      "/Title (".repeat(100_000),
+      ">>stream ".repeat(100_000)
+    );
+
+    const started = performance.now();
+    expect(extractPdfText(hostile)).toBeNull();
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+
+  it("stops after a fixed number of streams", () => {
+    const parts = ["%PDF-1.4\n"];
+    for (let i = 0; i < 6000; i++) parts.push("<< >>\nstream\n\nendstream\n");
+    const res = extractPdfText(
+      pdf(
+        ...parts,
+        streamObject(1, "BT (Text after thousands of empty streams.) Tj ET")
+      )
+    );
+
+    expect(res).toBeNull();
+  });
+});
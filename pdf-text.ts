@@ -0,0 +1,282 @@
+import { inflateSync } from "node:zlib";
+
+// Best-effort text extraction from PDF bytes with no dependencies: inflate
+// the Flate-encoded streams, then read the text-showing operators (Tj, TJ,
+// ', ") inside BT/ET blocks. Good enough for most papers and reports; fonts
+// with custom encodings or scanned pages yield little or nothing.
+
+export const isPdf = (bytes: Uint8Array) =>
+  bytes.length > 4 &&
+  bytes[0] === 0x25 && // %
+  bytes[1] === 0x50 && // P
+  bytes[2] === 0x44 && // D
+  bytes[3] === 0x46; // F
+
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString("latin1");
+
+const decodeLiteral = (s: string) => {
+  let out = "";
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (c !== "\\") {
+      out += c;
+      continue;
+    }
+    const n = s[++i];
+    if (n === undefined) break;
+    if (n === "n") out += "\n";
+    else if (n === "r") out += "\r";
+    else if (n === "t") out += "\t";
+    else if (n === "b" || n === "f") out += "";
+    else if (n >= "0" && n <= "7") {
+      let oct = n;
+      while (oct.length < 3 && s[i + 1] >= "0" && s[i + 1] <= "7")
+        oct += s[++i];
+      out += String.fromCharCode(parseInt(oct, 8));
+    } else if (n === "\r" || n === "\n") {
+      // Line continuation.
+      if (n === "\r" && s[i + 1] === "\n") i++;
+    } else out += n;
+  }
+  return decodeBytes(Buffer.from(out, "latin1"));
+};
+
+const decodeHex = (hex: string) => {
+  const clean = hex.replace(/\s+/g, "");
+  const padded = clean.length % 2 ? `${clean}0` : clean;
+  return decodeBytes(Buffer.from(padded, "hex"));
+};
+
+const decodeBytes = (buf: Buffer) => {
+  if (buf.length >= 2 && buf[0] === 0xfe && buf[1] === 0xff) {
+    // UTF-16BE with BOM.
+    const swapped = Buffer.alloc(buf.length - 2);
+    for (let i = 2; i + 1 < buf.length; i += 2) {
+      swapped[i - 2] = buf[i + 1];
+      swapped[i - 1] = buf[i];
+    }
+    return swapped.toString("utf16le");
+  }
+  return buf.toString("latin1");
+};
+
+// Tokenize just enough of a content stream to follow text operators.
+const textFromContent = (content: string) => {
+  const out: string[] = [];
+  let line = "";
+  // Array brackets are skipped; TJ only needs the strings and numbers.
+  const operands: (string | number)[] = [];
+  let i = 0;
+  const pushLine = () => {
+    if (line.trim()) out.push(line.replace(/[ \t]+/g, " ").trim());
+    line = "";
+  };
+
+  while (i < content.length) {
+    const c = content[i];
+    if (c === "(") {
+      let depth = 1;
+      let j = i + 1;
+      let raw = "";
+      while (j < content.length && depth > 0) {
+        const ch = content[j];
+        if (ch === "\\") {
+          raw += ch + (content[j + 1] ?? "");
+          j += 2;
+          continue;
+        }
+        if (ch === "(") depth++;
+        else if (ch === ")" && --depth === 0) break;
+        raw += ch;
+        j++;
+      }
+      operands.push(decodeLiteral(raw));
+      i = j + 1;
+    } else if (c === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i);
+      if (end < 0) break;
+      operands.push(decodeHex(content.slice(i + 1, end)));
+      i = end + 1;
+    } else if (c === "[" || c === "]") {
+      i++;
+    } else if (/\s/.test(c)) {
+      i++;
+    } else if (c === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r")
+        i++;
+    } else {
+      let j = i;
+      while (j < content.length && !/[\s()<>\[\]\/%]/.test(content[j])) j++;
+      if (j === i) j++;
+      const tok = content.slice(i, j);
+      i = j;
+      const num = Number(tok);
+      if (tok !== "" && !Number.isNaN(num)) {
+        operands.push(num);
+        continue;
+      }
+      switch (tok) {
+        case "Tj":
+        case "'":
+        case '"': {
+          if (tok !== "Tj") pushLine();
+          const s = operands[operands.length - 1];
+          if (typeof s === "string") line += s;
+          break;
+        }
+        case "TJ": {
+          for (const o of operands) {
+            if (typeof o === "string") line += o;
+            // Large negative kerning is how many PDFs encode a space.
+            else if (typeof o === "number" && o < -200) line += " ";
+          }
+          break;
+        }
+        case "T*":
+          pushLine();
+          break;
+        case "Td":
+        case "TD": {
+          const ty = operands[operands.length - 1];
+          if (typeof ty === "number" && ty !== 0) pushLine();
+          else line += " ";
+          break;
+        }
+        case "Tm":
+        case "ET":
+          pushLine();
+          break;
+      }
+      operands.length = 0;
+    }
+  }
+  pushLine();
+  return out;
+};
+
+// A small compressed stream can inflate to gigabytes, and inflateSync blocks
+// the event loop while it does, so inflation is capped per stream and per
+// document, and scanning stops once there is enough text.
+const MAX_STREAM_BYTES = 4 * 1024 * 1024;
+const MAX_INFLATED_BYTES = 32 * 1024 * 1024;
+const MAX_TEXT_CHARS = 200_000;
+
+// Streams are found by their keyword rather than a regex over the whole
+// file, which backtracks badly on hostile input. Each candidate looks back a
+// bounded distance for its dictionary, and only so many are tried.
+const MAX_STREAMS = 5000;
+const DICT_LOOKBACK = 2048;
+
+// The stream dictionary is the balanced << >> that ends just before the
+// "stream" keyword, e.g. << /Length 42 /DecodeParms << /Predictor 12 >> >>.
+const dictBefore = (raw: string, keyword: number) => {
+  const from = Math.max(0, keyword - DICT_LOOKBACK);
+  let i = keyword;
+  while (i > from && /\s/.test(raw[i - 1])) i--;
+  if (!raw.startsWith(">>", i - 2)) return null;
+  const end = i - 2;
+  let depth = 0;
+  while (i - 2 >= from) {
+    if (raw.startsWith(">>", i - 2)) {
+      depth++;
+      i -= 2;
+    } else if (raw.startsWith("<<", i - 2)) {
+      i -= 2;
+      if (--depth === 0) return raw.slice(i + 2, end);
+    } else i--;
+  }
+  return null;
+};
+
+export const extractPdfText = (
+  bytes: Uint8Array,
+  opts?: {
+    maxStreamBytes?: number;
+    maxInflatedBytes?: number;
+    maxTextChars?: number;
+  }
+): { text: string; title: string | null } | null => {
+  const maxStreamBytes = opts?.maxStreamBytes ?? MAX_STREAM_BYTES;
+  const maxTextChars = opts?.maxTextChars ?? MAX_TEXT_CHARS;
+  let inflateBudget = opts?.maxInflatedBytes ?? MAX_INFLATED_BYTES;
+  let textChars = 0;
+  const raw = latin1(bytes);
+  const lines: string[] = [];
+  let pos = 0;
+  for (
+    let tried = 0;
+    tried < MAX_STREAMS && textChars < maxTextChars;
+    tried++
+  ) {
+    const keyword = raw.indexOf("stream", pos);
+    if (keyword < 0) break;
+    pos = keyword + "stream".length;
+    if (raw.startsWith("end", keyword - 3)) continue;
+    let start = pos;
+    if (raw[start] === "\r") start++;
+    if (raw[start] !== "\n") continue;
+    start++;
+    const dict = dictBefore(raw, keyword);
+    if (dict === null) continue;
+    const end = raw.indexOf("endstream", start);
+    if (end < 0) break;
+    pos = end + "endstream".length;
+    if (/\/Subtype\s*\/(Image|Form)|\/Type\s*\/XRef/.test(dict)) continue;
+    let data = Buffer.from(raw.slice(start, end), "latin1");
+    if (/\/FlateDecode/.test(dict)) {
+      if (inflateBudget <= 0) break;
+      const limit = Math.min(maxStreamBytes, inflateBudget);
+      try {
+        // Throws once the output passes the limit; the stream is skipped,
+        // but the work spent on it still counts.
+        data = inflateSync(data, { maxOutputLength: limit });
+      } catch {
+        inflateBudget -= limit;
+        continue;
+      }
+      inflateBudget -= data.length;
+    } else if (/\/Filter/.test(dict)) {
+      continue;
+    }
+    const content = data.toString("latin1");
+    if (!/\bBT\b/.test(content) || !/T[Jj]/.test(content)) continue;
+    for (const line of textFromContent(content)) {
+      lines.push(line);
+      textChars += line.length + 1;
+    }
+  }
+
+  // Re-join words hyphenated across lines and merge wrapped lines into
+  // paragraphs; a short line usually ends a paragraph.
+  const paragraphs: string[] = [];
+  let current = "";
+  for (const l of lines) {
+    if (current.endsWith("-")) current = current.slice(0, -1) + l;
+    else current = current ? `${current} ${l}` : l;
+    if (l.length < 50 && /[.:!?]$/.test(l)) {
+      paragraphs.push(current);
+      current = "";
+    }
+  }
+  if (current) paragraphs.push(current);
+  const text = paragraphs.join("\n\n").trim().slice(0, maxTextChars);
+  if (text.length < 50) return null;
+
+  // Bounded so a file full of unterminated titles can't make this
+  // quadratic too.
+  const titleMatch = raw.match(
+    /\/Title\s*(\((?:\\.|[^\\)]){0,1000}\)|<[0-9a-fA-F\s]{0,4000}>)/
+  );
+  let title: string | null = null;
+  if (titleMatch) {
+    const t = titleMatch[1];
+    title =
+      (t.startsWith("(")
+        ? decodeLiteral(t.slice(1, -1))
+        : decodeHex(t.slice(1, -1))
+      )
+        .replace(/\s+/g, " ")
+        .trim() || null;
+  }
+  return { text, title };
+};
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import { now } from "./clock";
+import { HN_FEEDS, type NormalizedItem } from "./hn-api";
+import { JsonFile, dataPath } from "./json-file";
+import { domainMatches, domainOf, mentions } from "./subscriptions";
+
+export const SUMMARY_LENGTHS = ["short", "medium", "long"] as const;
+export const OUTPUT_STYLES = ["bullets", "prose", "cards"] as const;
+// Least to most specific; later levels override earlier ones.
+export const PREFERENCE_LEVELS = ["workspace", "channel", "user"] as const;
+export type PreferenceLevel = (typeof PREFERENCE_LEVELS)[number];
+
+export const preferencesSchema = z.object({
+  default_feed: z.enum(HN_FEEDS).optional(),
+  story_count: z.number().int().min(1).max(100).optional(),
+  summary_length: z.enum(SUMMARY_LENGTHS).optional(),
+  output_style: z.enum(OUTPUT_STYLES).optional(),
+  // Whether article content is fetched by default.
+  fetch_articles: z.boolean().optional(),
+  // Whether comments are read by default for TLDRs and digests.
+  include_comments: z.boolean().optional(),
+  muted_domains: z.array(z.string()).optional(),
+  muted_keywords: z.array(z.string()).optional(),
+});
+
+export type Preferences = z.output<typeof preferencesSchema>;
+export type PreferenceKey = keyof Preferences;
+
+export type StoredPreferences = Preferences & {
+  updated_at: number;
+  updated_by: string | null;
+};
+
+// Who is asking, from Slack message metadata.
+export type PreferenceScope = {
+  team: string | null;
+  channel: string | null;
+  user: string | null;
+};
+
+export type EffectivePreferences = {
+  preferences: Preferences;
+  // Which level each setting came from. Muted lists are merged from every
+  // level, so they are not listed here.
+  sources: Partial<Record<PreferenceKey, PreferenceLevel>>;
+};
+
+// Null when the scope lacks the id the level needs.
+const scopeKey = (level: PreferenceLevel, scope: PreferenceScope) => {
+  const team = scope.team ?? "-";
+  if (level === "workspace") return `team:${team}`;
+  if (level === "channel")
+    return scope.channel ? `team:${team}/channel:${scope.channel}` : null;
+  return scope.user ? `team:${team}/user:${scope.user}` : null;
+};
+
+const normalizeDomain = (d: string) =>
+  (d.includes("://") ? domainOf(d) : d.trim().toLowerCase())?.replace(
+    /^www\./,
+    ""
+  ) ?? "";
+
+const dedupe = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+export class PreferenceStore {
+  private file: JsonFile<{ scopes: Record<string, StoredPreferences> }>;
+
+  constructor(opts?: { path?: string }) {
+    this.file = new JsonFile(
+      opts?.path ?? dataPath("preferences.json"),
+      () => ({ scopes: {} as Record<string, StoredPreferences> })
+    );
+  }
+
+  get(
+    level: PreferenceLevel,
+    scope: PreferenceScope
+  ): StoredPreferences | null {
+    const key = scopeKey(level, scope);
+    return (key && this.file.data.scopes[key]) || null;
+  }
+
+  // `null` clears a setting; settings left out are kept. A level with no
+  // settings left is removed.
+  update(
+    level: PreferenceLevel,
+    scope: PreferenceScope,
+    patch: { [K in PreferenceKey]?: Preferences[K] | null },
+    by: string | null
+  ): StoredPreferences | null {
+    const key = scopeKey(level, scope);
+    if (!key) throw new Error(`No Slack ${level} to store preferences for.`);
+    const { updated_at, updated_by, ...current } =
+      this.file.data.scopes[key] ?? ({} as StoredPreferences);
+    const next: Record<string, unknown> = { ...current };
+    for (const [k, v] of Object.entries(patch)) {
+      if (v === undefined) continue;
+      if (v === null) delete next[k];
+      else next[k] = v;
+    }
+    if (next.muted_domains) {
+      next.muted_domains = dedupe(
+        (next.muted_domains as string[]).map(normalizeDomain)
+      );
+    }
+    if (next.muted_keywords) {
+      next.muted_keywords = dedupe(
+        (next.muted_keywords as string[]).map((k) => k.trim())
+      );
+    }
+    const preferences = preferencesSchema.parse(next);
+    if (!Object.keys(preferences).length) {
+      delete this.file.data.scopes[key];
+      this.file.save();
+      return null;
+    }
+    const stored = { ...preferences, updated_at: now(), updated_by: by };
+    this.file.data.scopes[key] = stored;
+    this.file.save();
+    return stored;
+  }
+
+  clear(level: PreferenceLevel, scope: PreferenceScope): boolean {
+    const key = scopeKey(level, scope);
+    if (!key || !this.file.data.scopes[key]) return false;
+    delete this.file.data.scopes[key];
+    this.file.save();
+    return true;
+  }
+
+  effective(scope: PreferenceScope): EffectivePreferences {
+    const preferences: Preferences = {};
+    const sources: EffectivePreferences["sources"] = {};
+    const domains: string[] = [];
+    const keywords: string[] = [];
+    for (const level of PREFERENCE_LEVELS) {
+      const stored = this.get(level, scope);
+      if (!stored) continue;
+      const { updated_at, updated_by, ...prefs } = stored;
+      domains.push(...(prefs.muted_domains ?? []));
+      keywords.push(...(prefs.muted_keywords ?? []));
+      for (const [k, v] of Object.entries(prefs)) {
+        if (v === undefined) continue;
+        (preferences as Record<string, unknown>)[k] = v;
+        sources[k as PreferenceKey] = level;
+      }
+    }
+    delete sources.muted_domains;
+    delete sources.muted_keywords;
+    if (domains.length) preferences.muted_domains = dedupe(domains);
+    else delete preferences.muted_domains;
+    if (keywords.length) preferences.muted_keywords = dedupe(keywords);
+    else delete preferences.muted_keywords;
+    return { preferences, sources };
+  }
+}
+
+// The muted domain or keyword an item hits, or null.
+export const mutedBy = (
+  item: NormalizedItem,
+  prefs: Preferences
+): string | null => {
+  const host = domainOf(item.url);
+  if (host) {
+    const domain = prefs.muted_domains?.find((d) => domainMatches(host, d));
+    if (domain) return domain;
+  }
+  const title = item.title ?? "";
+  return prefs.muted_keywords?.find((k) => k && mentions(title, k)) ?? null;
+};
+
+const SUMMARY_LENGTH_GUIDANCE: Record<
+  (typeof SUMMARY_LENGTHS)[number],
+  string
+> = {
+  short: "Keep each story to a single sentence.",
+  medium: "Keep each summary to 2–3 sentences.",
+  long: "Give each story a short paragraph (4–6 sentences) with the key details.",
+};
+
+const OUTPUT_STYLE_GUIDANCE: Record<(typeof OUTPUT_STYLES)[number], string> = {
+  bullets: "Format answers as bullet lists.",
+  prose: "Write answers as short paragraphs rather than bullet lists.",
+  cards:
+    "In Slack, post story lists as cards with send_hn_story_cards and keep the accompanying text brief.",
+};
+
+// System prompt section for non-default preferences; null when there are
+// none.
+export const preferencePrompt = (prefs: Preferences): string | null => {
+  const lines: string[] = [];
+  if (prefs.default_feed)
+    lines.push(`- Default to the "${prefs.default_feed}" feed.`);
+  if (prefs.story_count)
+    lines.push(`- Show ${prefs.story_count} stories unless asked otherwise.`);
+  if (prefs.summary_length)
+    lines.push(`- ${SUMMARY_LENGTH_GUIDANCE[prefs.summary_length]}`);
+  if (prefs.output_style)
+    lines.push(`- ${OUTPUT_STYLE_GUIDANCE[prefs.output_style]}`);
+  if (prefs.fetch_articles === false)
+    lines.push(
+      "- Do not fetch article content (include_article) unless the user explicitly asks for it."
+    );
+  if (prefs.fetch_articles === true)
+    lines.push("- Read the linked articles when summarizing stories.");
+  if (prefs.include_comments === true)
+    lines.push("- Include what commenters are saying in summaries.");
+  if (prefs.muted_domains?.length || prefs.muted_keywords?.length)
+    lines.push(
+      `- Leave out stories from ${[
+        ...(prefs.muted_domains ?? []),
+        ...(prefs.muted_keywords ?? []).map((k) => `"${k}"`),
+      ].join(", ")}; feed tools already filter them.`
+    );
+  if (!lines.length) return null;
+  return `## Preferences for this conversation:
+These were set with set_hn_preferences and override the general guidance above.
+${lines.join("\n")}`;
+};
@@ -0,0 +1,109 @@
+import { canonicalizeUrl } from "./canonical-url";
+import { HackerNewsSearch, type SearchHit } from "./hn-search";
+
+export type PreviousDiscussion = {
+  id: number;
+  title: string | null;
+  url: string | null;
+  by: string | null;
+  points: number | null;
+  comments_count: number | null;
+  created_at: string | null;
+  time_ago: string | null;
+  comments_url: string;
+};
+
+// Finds candidate submissions for a canonical URL. Candidates may include
+// near misses; PreviousDiscussions keeps only exact canonical matches.
+export interface DiscussionLookup {
+  candidates(canonicalUrl: string): Promise<SearchHit[]>;
+}
+
+// Algolia's url attribute is tokenized, so search for the path words (the
+// host differs between mirrors) and let the caller compare canonical forms.
+// Short paths also get the host, or the query would match half of HN.
+export const lookupQuery = (canonicalUrl: string) => {
+  const u = new URL(canonicalUrl);
+  if (u.hostname === "youtube.com" && u.searchParams.get("v"))
+    return u.searchParams.get("v")!;
+  const words = [u.pathname, ...u.searchParams.values()]
+    .join(" ")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  if (words.length < 2) words.unshift(u.hostname);
+  return words.join(" ");
+};
+
+export class AlgoliaDiscussionLookup implements DiscussionLookup {
+  private search: HackerNewsSearch;
+
+  constructor(opts: { search: HackerNewsSearch }) {
+    this.search = opts.search;
+  }
+
+  async candidates(canonicalUrl: string): Promise<SearchHit[]> {
+    const res = await this.search.search({
+      query: lookupQuery(canonicalUrl),
+      tags: ["story"],
+      restrictToUrl: true,
+      hitsPerPage: 100,
+    });
+    return res.hits;
+  }
+}
+
+export class PreviousDiscussions {
+  private lookup: DiscussionLookup;
+
+  constructor(opts: { lookup: DiscussionLookup }) {
+    this.lookup = opts.lookup;
+  }
+
+  // Returns null when the URL can't be canonicalized (not http(s)).
+  async find(
+    url: string,
+    opts?: {
+      excludeId?: number;
+      limit?: number;
+      sortBy?: "date" | "comments" | "points";
+    }
+  ): Promise<{
+    canonical_url: string;
+    total: number;
+    discussions: PreviousDiscussion[];
+  } | null> {
+    const canonical = canonicalizeUrl(url);
+    if (!canonical) return null;
+    const hits = await this.lookup.candidates(canonical);
+    const seen = new Set<number>();
+    const matches = hits.filter((h) => {
+      if (h.id == null || h.id === opts?.excludeId || seen.has(h.id))
+        return false;
+      seen.add(h.id);
+      return !!h.url && canonicalizeUrl(h.url) === canonical;
+    });
+    const sortBy = opts?.sortBy ?? "date";
+    const key = (h: SearchHit) =>
+      sortBy === "comments"
+        ? h.comments_count ?? 0
+        : sortBy === "points"
+        ? h.score ?? 0
+        : h.time ?? 0;
+    matches.sort((a, b) => key(b) - key(a));
+    return {
+      canonical_url: canonical,
+      total: matches.length,
+      discussions: matches.slice(0, opts?.limit ?? 10).map((h) => ({
+        id: h.id!,
+        title: h.title,
+        url: h.url,
+        by: h.by,
+        points: h.score,
+        comments_count: h.comments_count,
+        created_at: h.time ? new Date(h.time * 1000).toISOString() : null,
+        time_ago: h.time_ago,
+        comments_url: h.comments_url!,
+      })),
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { extractArticle } from "./readability";
+
+// Saved pages in fixtures/articles, each taking its metadata from a
+// different place: JSON-LD, Open Graph tags, or the page body.
+const page = (name: string, url = "https://site.example/path/page") =>
+  extractArticle(
+    readFileSync(
+      new URL(`./fixtures/articles/${name}`, import.meta.url),
+      "utf8"
+    ),
+    url
+  );
+
+describe("extractArticle", () => {
+  it("reads a news story with JSON-LD metadata", () => {
+    const res = page(
+      "news-jsonld.html",
+      "https://ledger.example.co.uk/news/2025/03/14/lights"
+    )!;
+
+    expect(res.metadata).toMatchObject({
+      canonical_url: "https://ledger.example.co.uk/news/2025/03/street-lights",
+      title: "Councils turn off street lights to save money",
+      author: "Priya Shah, Tom Hale",
+      published_at: "2025-03-14T06:30:00+00:00",
+      site_name: "The Daily Ledger",
+      language: "en-GB",
+      description:
+        "Dozens of councils now switch off street lights after midnight.",
+    });
+    expect(res.text).toMatch(
+      /^# Councils turn off street lights to save money\n\nBy Priya Shah/
+    );
+    expect(res.text).toContain("\n\n## Residents divided\n\n");
+    expect(res.text).toContain('"We looked at accident and crime figures');
+    for (const chrome of [
+      "cookies",
+      "Weather",
+      "Related stories",
+      "Total waste of money",
+      "All rights reserved",
+    ]) {
+      expect(res.text).not.toContain(chrome);
+    }
+  });
+
+  it("reads a blog post with Open Graph tags, code and lists", () => {
+    const res = page("blog-opengraph.html")!;
+
+    expect(res.metadata).toEqual({
+      canonical_url: "https://driftwood.example/blog/postgres-queue",
+      title: "Why we moved our queue to Postgres",
+      author: "Sam Okafor",
+      published_at: "2024-11-02T15:00:00Z",
+      site_name: "Driftwood Labs",
+      language: "en",
+      description:
+        "Three years of running a job queue on Postgres with SKIP LOCKED.",
+      word_count: 156,
+      reading_time_minutes: 1,
+    });
+    expect(res.text).toContain(
+      [
+        "## The claim query",
+        "UPDATE jobs SET state = 'running'\nWHERE id = (\n  SELECT id FROM jobs WHERE state = 'queued'\n  ORDER BY run_at FOR UPDATE SKIP LOCKED LIMIT 1\n)\nRETURNING *;",
+        "SKIP LOCKED lets many workers poll at once",
+      ].join("\n\n")
+    );
+    expect(res.text).toContain(
+      "- Fan-out to many consumers\n- Very high throughput"
+    );
+    expect(res.text).not.toContain("Popular posts");
+    expect(res.text).not.toContain("Subscribe");
+  });
+
+  it("falls back to the page title, byline and <time>", () => {
+    const res = page("docs-byline.html")!;
+
+    expect(res.metadata).toMatchObject({
+      canonical_url: null,
+      title: "Garden notes: overwintering dahlias",
+      author: "Margaret Lowe",
+      published_at: "2023-10-21",
+      site_name: null,
+    });
+    expect(res.text).toMatch(/^## Overwintering dahlias\n\n/);
+    expect(res.text).toContain("store them in a frost-free shed");
+    expect(res.text).not.toContain("Archive");
+    expect(res.text).not.toContain("Powered by");
+  });
+
+  it("drops the site name from the page title", () => {
+    const html = `<html><head>
+      <title>A tiny SQLite replication tool | Example Engineering</title>
+      <meta property="og:site_name" content="Example Engineering">
+      </head><body><p>We built litecopy, a small tool that streams SQLite frames.</p></body></html>`;
+
+    expect(extractArticle(html)!.metadata.title).toBe(
+      "A tiny SQLite replication tool"
+    );
+  });
+
+  it("joins loose paragraphs when no container stands out", () => {
+    const res = page("paragraphs-only.html")!;
+
+    expect(res.text).toBe(
+      "The library will be closed on Monday for the bank holiday and will reopen on Tuesday at 9am.\n\n" +
+        "Books due on Monday can be returned on Tuesday without a fine."
+    );
+    expect(res.metadata.title).toBe("Notice");
+  });
+
+  it("returns null for pages without readable text", () => {
+    expect(page("empty.html")).toBeNull();
+    expect(extractArticle("")).toBeNull();
+  });
+});
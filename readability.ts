@@ -0,0 +1,469 @@
+import { HTMLElement, NodeType, parse, type Node } from "node-html-parser";
+
+// Readability-style content extraction: score candidate containers by the
+// paragraphs they hold, penalize link-heavy and "unlikely" blocks (nav,
+// cookie banners, comment sections), then serialize the winner keeping
+// headings, paragraphs, lists and code blocks as separate lines.
+
+export type ArticleMetadata = {
+  canonical_url: string | null;
+  title: string | null;
+  author: string | null;
+  published_at: string | null;
+  site_name: string | null;
+  language: string | null;
+  description: string | null;
+  word_count: number;
+  reading_time_minutes: number;
+};
+
+export type ExtractedArticle = {
+  text: string;
+  metadata: ArticleMetadata;
+};
+
+const WORDS_PER_MINUTE = 230;
+
+const REMOVE_TAGS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "iframe",
+  "svg",
+  "canvas",
+  "form",
+  "button",
+  "input",
+  "select",
+  "nav",
+  "footer",
+  "aside",
+];
+
+const UNLIKELY =
+  /banner|breadcrumb|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|toolbar|tweet|twitter|widget|\bad-|\bads\b|advert/i;
+const MAYBE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE =
+  /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE =
+  /hidden|banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|modal|outbrain|popup|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|cookie|consent/i;
+
+const BLOCK_TAGS = new Set([
+  "ADDRESS",
+  "ARTICLE",
+  "BLOCKQUOTE",
+  "DD",
+  "DIV",
+  "DL",
+  "DT",
+  "FIGCAPTION",
+  "FIGURE",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "HR",
+  "LI",
+  "MAIN",
+  "OL",
+  "P",
+  "PRE",
+  "SECTION",
+  "TABLE",
+  "TR",
+  "UL",
+]);
+
+const collapse = (s: string) => s.replace(/\s+/g, " ").trim();
+
+const isElement = (n: Node): n is HTMLElement =>
+  n.nodeType === NodeType.ELEMENT_NODE;
+
+const matchString = (el: HTMLElement) =>
+  `${el.getAttribute("class") ?? ""} ${el.getAttribute("id") ?? ""}`;
+
+const classWeight = (el: HTMLElement) => {
+  const s = matchString(el);
+  let w = 0;
+  if (NEGATIVE.test(s)) w -= 25;
+  if (POSITIVE.test(s)) w += 25;
+  return w;
+};
+
+const tagWeight = (tag: string) => {
+  switch (tag) {
+    case "ARTICLE":
+      return 10;
+    case "MAIN":
+    case "DIV":
+      return 5;
+    case "SECTION":
+    case "PRE":
+    case "TD":
+    case "BLOCKQUOTE":
+      return 3;
+    case "ADDRESS":
+    case "OL":
+    case "UL":
+    case "DL":
+    case "DD":
+    case "DT":
+    case "LI":
+    case "FORM":
+      return -3;
+    case "H1":
+    case "H2":
+    case "H3":
+    case "H4":
+    case "H5":
+    case "H6":
+    case "TH":
+      return -5;
+    default:
+      return 0;
+  }
+};
+
+const linkDensity = (el: HTMLElement) => {
+  const total = collapse(el.textContent).length;
+  if (!total) return 0;
+  let linked = 0;
+  for (const a of el.querySelectorAll("a")) {
+    linked += collapse(a.textContent).length;
+  }
+  return linked / total;
+};
+
+const meta = (root: HTMLElement, ...selectors: string[]) => {
+  for (const sel of selectors) {
+    const el = root.querySelector(sel);
+    const v = el?.getAttribute("content") ?? el?.getAttribute("datetime");
+    if (v && v.trim()) return collapse(v);
+  }
+  return null;
+};
+
+// JSON-LD is the most reliable source for author and dates on news sites.
+const readJsonLd = (root: HTMLElement) => {
+  const out: {
+    author?: string;
+    published?: string;
+    headline?: string;
+    site?: string;
+  } = {};
+  for (const s of root.querySelectorAll('script[type="application/ld+json"]')) {
+    try {
+      const data = JSON.parse(s.rawText);
+      const nodes: any[] = Array.isArray(data)
+        ? data
+        : Array.isArray(data?.["@graph"])
+        ? data["@graph"]
+        : [data];
+      for (const n of nodes) {
+        const names = (Array.isArray(n?.author) ? n.author : [n?.author])
+          .map((a: any) => (typeof a === "string" ? a : a?.name))
+          .filter((a: unknown): a is string => typeof a === "string");
+        if (!out.author && names.length) out.author = names.join(", ");
+        const site =
+          n?.publisher?.name ?? (n?.["@type"] === "WebSite" ? n.name : null);
+        if (!out.site && typeof site === "string") out.site = site;
+        if (!out.published && typeof n?.datePublished === "string")
+          out.published = n.datePublished;
+        if (!out.headline && typeof n?.headline === "string")
+          out.headline = n.headline;
+      }
+    } catch {
+      // Malformed JSON-LD is common; ignore it.
+    }
+  }
+  return out;
+};
+
+const resolveUrl = (href: string | null, baseUrl?: string) => {
+  if (!href) return null;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+};
+
+// Page titles often end with the site name ("Post title | Site"); drop it
+// when it matches the site we already report separately.
+const withoutSiteName = (title: string | null, site: string | null) => {
+  if (!title || !site) return title;
+  const lower = title.toLowerCase();
+  for (const sep of [" | ", " - ", " – ", " — ", " · ", " :: "]) {
+    const suffix = `${sep}${site}`.toLowerCase();
+    if (lower.endsWith(suffix) && lower.length > suffix.length)
+      return title.slice(0, -suffix.length).trim();
+  }
+  return title;
+};
+
+// Bylines in the page body usually read "By Jane Doe".
+const withoutBy = (byline: string) => byline.replace(/^by\s+/i, "");
+
+const extractMetadata = (root: HTMLElement, baseUrl?: string) => {
+  const ld = readJsonLd(root);
+  const canonical =
+    root.querySelector('link[rel="canonical"]')?.getAttribute("href") ??
+    meta(root, 'meta[property="og:url"]');
+  const site_name =
+    meta(
+      root,
+      'meta[property="og:site_name"]',
+      'meta[name="application-name"]'
+    ) ??
+    ld.site ??
+    null;
+  return {
+    canonical_url: resolveUrl(canonical, baseUrl),
+    title: withoutSiteName(
+      meta(root, 'meta[property="og:title"]', 'meta[name="twitter:title"]') ??
+        ld.headline ??
+        (collapse(root.querySelector("title")?.textContent ?? "") || null),
+      site_name
+    ),
+    author:
+      meta(
+        root,
+        'meta[name="author"]',
+        'meta[property="article:author"]',
+        'meta[name="parsely-author"]'
+      ) ??
+      ld.author ??
+      (withoutBy(
+        collapse(
+          root.querySelector('[rel="author"], .byline, .author')?.textContent ??
+            ""
+        )
+      ) ||
+        null),
+    published_at:
+      meta(
+        root,
+        'meta[property="article:published_time"]',
+        'meta[name="date"]',
+        'meta[name="pubdate"]',
+        'meta[itemprop="datePublished"]',
+        "time[datetime]"
+      ) ??
+      ld.published ??
+      null,
+    site_name,
+    language:
+      root.querySelector("html")?.getAttribute("lang")?.trim() ||
+      meta(root, 'meta[http-equiv="content-language"]'),
+    description: meta(
+      root,
+      'meta[property="og:description"]',
+      'meta[name="description"]'
+    ),
+  };
+};
+
+const stripUnlikely = (root: HTMLElement) => {
+  for (const tag of REMOVE_TAGS) {
+    root.querySelectorAll(tag).forEach((el) => el.remove());
+  }
+  for (const el of root.querySelectorAll("*")) {
+    if (el.tagName === "BODY" || el.tagName === "HTML") continue;
+    if (el.tagName === "ARTICLE" || el.tagName === "MAIN") continue;
+    const s = matchString(el);
+    if (s.trim() && UNLIKELY.test(s) && !MAYBE.test(s)) el.remove();
+    else if (
+      el.getAttribute("hidden") !== undefined ||
+      el.getAttribute("aria-hidden") === "true" ||
+      /display:\s*none/i.test(el.getAttribute("style") ?? "")
+    )
+      el.remove();
+  }
+};
+
+const pickContent = (root: HTMLElement): HTMLElement | null => {
+  const scores = new Map<HTMLElement, number>();
+  const init = (el: HTMLElement) => {
+    if (!scores.has(el))
+      scores.set(el, tagWeight(el.tagName) + classWeight(el));
+  };
+
+  for (const p of root.querySelectorAll("p, pre, td, blockquote")) {
+    const text = collapse(p.textContent);
+    if (text.length < 25) continue;
+    const parent = p.parentNode as HTMLElement | null;
+    if (!parent || !isElement(parent)) continue;
+    const grand = parent.parentNode as HTMLElement | null;
+    const score =
+      1 +
+      text.split(/[,，、]/).length +
+      Math.min(Math.floor(text.length / 100), 3);
+    init(parent);
+    scores.set(parent, scores.get(parent)! + score);
+    if (grand && isElement(grand)) {
+      init(grand);
+      scores.set(grand, scores.get(grand)! + score / 2);
+    }
+  }
+
+  let best: HTMLElement | null = null;
+  let bestScore = 0;
+  for (const [el, raw] of scores) {
+    const s = raw * (1 - linkDensity(el));
+    scores.set(el, s);
+    if (s > bestScore) {
+      best = el;
+      bestScore = s;
+    }
+  }
+  if (!best) return null;
+
+  // Content is often split across sibling containers; pull in siblings that
+  // scored reasonably or look like plain prose.
+  const parent = best.parentNode as HTMLElement | null;
+  if (!parent || !isElement(parent)) return best;
+  const threshold = Math.max(10, bestScore * 0.2);
+  const wrapper = parse("<div></div>").firstChild as HTMLElement;
+  for (const sib of parent.childNodes) {
+    if (!isElement(sib)) continue;
+    let keep = sib === best || (scores.get(sib) ?? 0) >= threshold;
+    if (!keep && sib.tagName === "P") {
+      const text = collapse(sib.textContent);
+      const ld = linkDensity(sib);
+      keep =
+        (text.length > 80 && ld < 0.25) ||
+        (text.length > 0 && ld === 0 && /\.( |$)/.test(text));
+    }
+    if (keep) wrapper.appendChild(sib.clone());
+  }
+  return wrapper;
+};
+
+// Serialize to plain text with one block per line group: "# " prefixes for
+// headings, "- " for list items, blank lines between paragraphs.
+const toStructuredText = (el: HTMLElement) => {
+  const blocks: string[] = [];
+  let inline = "";
+  const flush = () => {
+    const t = collapse(inline);
+    if (t) blocks.push(t);
+    inline = "";
+  };
+  const walk = (n: Node) => {
+    if (n.nodeType === NodeType.TEXT_NODE) {
+      inline += n.textContent;
+      return;
+    }
+    if (!isElement(n)) return;
+    const tag = n.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      flush();
+      const t = collapse(n.textContent);
+      if (t) blocks.push(`${"#".repeat(Number(tag[1]))} ${t}`);
+      return;
+    }
+    if (tag === "PRE") {
+      flush();
+      const t = n.textContent.replace(/\n+$/, "");
+      if (t.trim()) blocks.push(t);
+      return;
+    }
+    if (tag === "LI") {
+      flush();
+      const t = collapse(n.textContent);
+      if (t) blocks.push(`- ${t}`);
+      return;
+    }
+    if (tag === "BR") {
+      inline += "\n";
+      return;
+    }
+    if (tag === "IMG") return;
+    const block = BLOCK_TAGS.has(tag);
+    if (block) flush();
+    for (const c of n.childNodes) walk(c);
+    if (block) flush();
+  };
+  walk(el);
+  flush();
+  // Keep consecutive list items together.
+  return blocks
+    .map((b, i) =>
+      i && b.startsWith("- ") && blocks[i - 1].startsWith("- ")
+        ? `\n${b}`
+        : i
+        ? `\n\n${b}`
+        : b
+    )
+    .join("");
+};
+
+const countWords = (text: string) =>
+  text.split(/\s+/).filter((w) => /\w/.test(w)).length;
+
+// Fills in the length-derived fields; used by every extractor so metadata
+// has the same shape regardless of where the text came from.
+export const articleMetadata = (
+  partial: Partial<ArticleMetadata>,
+  text: string
+): ArticleMetadata => {
+  const word_count = countWords(text);
+  return {
+    canonical_url: null,
+    title: null,
+    author: null,
+    published_at: null,
+    site_name: null,
+    language: null,
+    description: null,
+    ...partial,
+    word_count,
+    reading_time_minutes: Math.max(
+      1,
+      Math.round(word_count / WORDS_PER_MINUTE)
+    ),
+  };
+};
+
+export const extractArticle = (
+  html: string,
+  baseUrl?: string
+): ExtractedArticle | null => {
+  if (!html) return null;
+  try {
+    // <pre> is parsed as markup, not raw text, so code blocks don't keep
+    // their <code> tags.
+    const root = parse(html, {
+      comment: false,
+      blockTextElements: { script: true, noscript: true, style: true },
+    });
+    const partial = extractMetadata(root, baseUrl);
+
+    stripUnlikely(root);
+    const content = pickContent(root);
+    let text = content ? toStructuredText(content) : "";
+
+    if (text.length < 200) {
+      // Short or oddly structured pages: fall back to every decent paragraph.
+      const paragraphs = root
+        .querySelectorAll("p")
+        .map((p) => collapse(p.textContent))
+        .filter((t) => t.length > 20);
+      const joined = paragraphs.join("\n\n");
+      if (joined.length > text.length) text = joined;
+    }
+    if (text.length < 50) {
+      const body = root.querySelector("body") ?? root;
+      const all = collapse(body.textContent);
+      if (all.length < 50) return null;
+      text = all;
+    }
+
+    return { text, metadata: articleMetadata(partial, text) };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,236 @@
+import { createHash } from "node:crypto";
+import { lookup as dnsLookup } from "node:dns/promises";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { FIXTURE_MODES } from "./config";
+import { HttpError, defaultFetch } from "./http";
+import type { LookupFn } from "./url-safety";
+
+export type FixtureMode = (typeof FIXTURE_MODES)[number];
+
+type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+export type HttpFixture = {
+  request: { method: string; url: string };
+  response: {
+    status: number;
+    status_text: string;
+    headers: Record<string, string>;
+    // Text bodies are stored as is so fixtures can be read and edited.
+    encoding: "utf8" | "base64";
+    body: string;
+  };
+  recorded_at: number;
+};
+
+export type DnsFixture = {
+  host: string;
+  addresses: { address: string; family: number }[];
+  recorded_at: number;
+};
+
+// The body has already been decoded, and cookies don't belong in fixtures.
+const DROPPED_HEADERS = new Set([
+  "content-encoding",
+  "content-length",
+  "transfer-encoding",
+  "set-cookie",
+]);
+
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+const fixtureName = (key: string, url: string) => {
+  let slug = url;
+  try {
+    const u = new URL(url);
+    slug = `${u.hostname}${u.pathname}`;
+  } catch {}
+  slug = slug
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60);
+  const hash = createHash("sha1").update(key).digest("hex").slice(0, 12);
+  return `${slug}-${hash}.json`;
+};
+
+const encodeBody = (body: Uint8Array) => {
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(body);
+    return { encoding: "utf8" as const, body: text };
+  } catch {
+    return {
+      encoding: "base64" as const,
+      body: Buffer.from(body).toString("base64"),
+    };
+  }
+};
+
+// Recording stops at the same size cap HttpClient applies, rather than
+// buffering a huge download before HttpClient gets to refuse it.
+const readCapped = async (res: Response, url: string, maxBytes: number) => {
+  if (!res.body) return new Uint8Array();
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      reader.cancel().catch(() => {});
+      throw new HttpError(
+        "too_large",
+        url,
+        `Response exceeded ${maxBytes} bytes`,
+        res.status
+      );
+    }
+    chunks.push(value);
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+};
+
+const writeJson = (path: string, value: unknown) => {
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(value, null, 2));
+  renameSync(tmp, path);
+};
+
+// Transport under HttpClient (and the URL policy's DNS lookups) for offline
+// runs. Record mode passes requests through and writes each response to the
+// fixture directory; replay mode answers only from those files and fails on
+// anything that wasn't recorded. Requests are keyed by method and URL, so
+// conditional headers get the recorded full response back.
+//
+//   <dir>/meta.json      when the first fixture was recorded; replay pins the
+//                        clock to it
+//   <dir>/http/*.json    one HttpFixture per request
+//   <dir>/dns/*.json     one DnsFixture per host
+export class FixtureTransport {
+  readonly mode: Exclude<FixtureMode, "off">;
+  readonly dir: string;
+  private fetchImpl: FetchFn;
+  private lookupImpl: LookupFn;
+  private maxBytes: number;
+  private started = false;
+
+  constructor(opts: {
+    mode: Exclude<FixtureMode, "off">;
+    dir: string;
+    fetch?: FetchFn;
+    lookup?: LookupFn;
+    // Largest response body recorded.
+    maxBytes?: number;
+  }) {
+    this.mode = opts.mode;
+    this.dir = opts.dir;
+    this.fetchImpl = opts.fetch ?? defaultFetch;
+    this.lookupImpl =
+      opts.lookup ?? ((host) => dnsLookup(host, { all: true, verbatim: true }));
+    this.maxBytes = opts.maxBytes ?? 5 * 1024 * 1024;
+  }
+
+  fetch: FetchFn = async (url, init) => {
+    const method = (init.method ?? "GET").toUpperCase();
+    const path = join(this.dir, "http", fixtureName(`${method} ${url}`, url));
+    if (this.mode === "replay") {
+      const fixture = this.read<HttpFixture>(path);
+      if (!fixture) {
+        throw new HttpError(
+          "blocked",
+          url,
+          `No fixture for ${method} ${url} in ${this.dir} (replay mode)`
+        );
+      }
+      const { response } = fixture;
+      const body =
+        response.encoding === "base64"
+          ? Buffer.from(response.body, "base64")
+          : response.body;
+      return new Response(
+        NULL_BODY_STATUSES.has(response.status) ? null : body,
+        {
+          status: response.status,
+          statusText: response.status_text,
+          headers: response.headers,
+        }
+      );
+    }
+
+    const res = await this.fetchImpl(url, init);
+    const body = await readCapped(res, url, this.maxBytes);
+    const headers: Record<string, string> = {};
+    res.headers.forEach((value, name) => {
+      if (!DROPPED_HEADERS.has(name)) headers[name] = value;
+    });
+    this.write(path, {
+      request: { method, url },
+      response: {
+        status: res.status,
+        status_text: res.statusText,
+        headers,
+        ...encodeBody(body),
+      },
+      recorded_at: Date.now(),
+    } satisfies HttpFixture);
+    return new Response(NULL_BODY_STATUSES.has(res.status) ? null : body, {
+      status: res.status,
+      statusText: res.statusText,
+      headers,
+    });
+  };
+
+  lookup: LookupFn = async (host) => {
+    const path = join(this.dir, "dns", fixtureName(host, host));
+    if (this.mode === "replay") {
+      const fixture = this.read<DnsFixture>(path);
+      if (!fixture) {
+        throw new HttpError(
+          "blocked",
+          host,
+          `No DNS fixture for ${host} in ${this.dir} (replay mode)`
+        );
+      }
+      return fixture.addresses;
+    }
+    const addresses = await this.lookupImpl(host);
+    this.write(path, {
+      host,
+      addresses: addresses.map(({ address, family }) => ({ address, family })),
+      recorded_at: Date.now(),
+    } satisfies DnsFixture);
+    return addresses;
+  };
+
+  // When the fixtures were recorded, or null before anything was.
+  recordedAt(): number | null {
+    return (
+      this.read<{ recorded_at: number }>(join(this.dir, "meta.json"))
+        ?.recorded_at ?? null
+    );
+  }
+
+  private read<T>(path: string): T | null {
+    try {
+      return JSON.parse(readFileSync(path, "utf8")) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  // Unlike the agent's state files, a fixture that can't be written is an
+  // error: a recording with holes would fail later in replay.
+  private write(path: string, value: unknown) {
+    if (!this.started) {
+      mkdirSync(join(this.dir, "http"), { recursive: true });
+      mkdirSync(join(this.dir, "dns"), { recursive: true });
+      // Recording more into an existing directory keeps its original time.
+      if (this.recordedAt() === null) {
+        writeJson(join(this.dir, "meta.json"), { recorded_at: Date.now() });
+      }
+      this.started = true;
+    }
+    writeJson(path, value);
+  }
+}
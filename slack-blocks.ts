@@ -0,0 +1,273 @@
+import type { CommentNode } from "./comments";
+import { hnItemUrl, timeAgo, type NormalizedItem } from "./hn-api";
+import type { PreviousDiscussion } from "./previous-discussions";
+import { domainOf } from "./subscriptions";
+
+// Block Kit rendering for stories, comments and digests. Buttons carry the
+// story id in `value` and are handled by SlackInteractions.
+
+export type Block = Record<string, any>;
+
+export const ACTION_TLDR = "hn_tldr";
+export const ACTION_TOP_COMMENTS = "hn_top_comments";
+export const ACTION_PREVIOUS = "hn_previous_discussions";
+export const ACTION_OPEN_THREAD = "hn_open_thread";
+
+// Slack rejects messages with more than 50 blocks or sections over 3000
+// characters.
+const MAX_BLOCKS = 50;
+const MAX_SECTION_CHARS = 3000;
+
+export const escapeMrkdwn = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const truncate = (s: string, max: number) =>
+  s.length > max ? `${s.slice(0, max - 1)}…` : s;
+
+const section = (text: string): Block => ({
+  type: "section",
+  text: { type: "mrkdwn", text: truncate(text, MAX_SECTION_CHARS) },
+});
+
+const context = (text: string): Block => ({
+  type: "context",
+  elements: [{ type: "mrkdwn", text: truncate(text, MAX_SECTION_CHARS) }],
+});
+
+const divider: Block = { type: "divider" };
+
+// Splits long mrkdwn on line breaks so each piece fits in a section.
+export const textBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    if (current && current.length + line.length + 1 > MAX_SECTION_CHARS) {
+      blocks.push(section(current));
+      current = "";
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current.trim()) blocks.push(section(current));
+  return blocks;
+};
+
+export const storyLine = (item: NormalizedItem) => {
+  const link = item.url ?? item.comments_url ?? hnItemUrl(item.id ?? 0);
+  const domain = domainOf(item.url);
+  return `*<${link}|${escapeMrkdwn(item.title ?? "Untitled")}>*${
+    domain ? ` (${domain})` : ""
+  }`;
+};
+
+export const storyStats = (item: NormalizedItem) =>
+  [
+    `${item.score ?? 0} points`,
+    item.comments_url
+      ? `<${item.comments_url}|${item.comments_count ?? 0} comments>`
+      : `${item.comments_count ?? 0} comments`,
+    item.by ? `by ${escapeMrkdwn(item.by)}` : null,
+    item.time_ago,
+  ]
+    .filter(Boolean)
+    .join(" | ");
+
+export const storyActions = (item: NormalizedItem): Block => {
+  const id = String(item.id ?? "");
+  const elements: Block[] = [
+    {
+      type: "button",
+      text: { type: "plain_text", text: "TLDR" },
+      action_id: ACTION_TLDR,
+      value: id,
+    },
+    {
+      type: "button",
+      text: { type: "plain_text", text: "Top comments" },
+      action_id: ACTION_TOP_COMMENTS,
+      value: id,
+    },
+  ];
+  if (item.url) {
+    elements.push({
+      type: "button",
+      text: { type: "plain_text", text: "Discussed before?" },
+      action_id: ACTION_PREVIOUS,
+      value: id,
+    });
+  }
+  elements.push({
+    type: "button",
+    text: { type: "plain_text", text: "Open thread" },
+    action_id: ACTION_OPEN_THREAD,
+    url: item.comments_url ?? hnItemUrl(item.id ?? 0),
+    value: id,
+  });
+  return { type: "actions", block_id: `hn_story_${id}`, elements };
+};
+
+export const storyCard = (
+  item: NormalizedItem,
+  opts?: { rank?: number; note?: string; buttons?: boolean }
+): Block[] => {
+  const prefix = opts?.rank != null ? `${opts.rank}. ` : "";
+  const blocks = [section(`${prefix}${storyLine(item)}\n${storyStats(item)}`)];
+  if (opts?.note) blocks.push(context(opts.note));
+  if (opts?.buttons ?? true) blocks.push(storyActions(item));
+  return blocks;
+};
+
+// Cards for a list of stories, cut short to stay within Slack's block limit.
+export const storyListBlocks = (
+  items: NormalizedItem[],
+  opts?: { header?: string; intro?: Block[]; ranked?: boolean }
+): Block[] => {
+  const blocks: Block[] = [];
+  if (opts?.header) {
+    blocks.push({
+      type: "header",
+      text: { type: "plain_text", text: truncate(opts.header, 150) },
+    });
+  }
+  blocks.push(...(opts?.intro ?? []));
+  for (const [i, item] of items.entries()) {
+    const card = storyCard(item, { rank: opts?.ranked ? i + 1 : undefined });
+    if (blocks.length + card.length + 2 > MAX_BLOCKS) {
+      blocks.push(context(`${items.length - i} more not shown.`));
+      break;
+    }
+    if (i > 0 || opts?.intro?.length) blocks.push(divider);
+    blocks.push(...card);
+  }
+  return blocks;
+};
+
+// A single item: a story card, or the comment itself with a link to where it
+// was posted.
+export const itemBlocks = (
+  item: NormalizedItem,
+  opts?: { note?: string; parent?: number | null }
+): Block[] => {
+  if (item.type !== "comment") {
+    const excerpt = item.text
+      ? `> ${escapeMrkdwn(truncate(item.text, 600)).replace(/\n+/g, "\n> ")}`
+      : null;
+    const note = [excerpt, opts?.note].filter(Boolean).join("\n");
+    return storyCard(item, { note: note || undefined });
+  }
+  const byline = [escapeMrkdwn(item.by ?? "unknown"), item.time_ago]
+    .filter(Boolean)
+    .join(", ");
+  const blocks = [
+    section(
+      `> ${escapeMrkdwn(truncate(item.text ?? "", 2000)).replace(
+        /\n+/g,
+        "\n> "
+      )}\n<${hnItemUrl(item.id ?? 0)}|${byline}>`
+    ),
+  ];
+  if (opts?.parent) {
+    blocks.push(context(`Reply to <${hnItemUrl(opts.parent)}|${opts.parent}>`));
+  }
+  if (opts?.note) blocks.push(context(opts.note));
+  return blocks;
+};
+
+export type UserSummary = {
+  id: string;
+  karma: number | null;
+  // Unix seconds.
+  created: number | null;
+  about: string | null;
+  submitted_count: number;
+};
+
+export const hnUserUrl = (id: string) =>
+  `https://news.ycombinator.com/user?id=${encodeURIComponent(id)}`;
+
+export const userBlocks = (user: UserSummary): Block[] => {
+  const stats = [
+    `${user.karma ?? 0} karma`,
+    user.created ? `joined ${timeAgo(user.created)}` : null,
+    `${user.submitted_count} submissions and comments`,
+  ]
+    .filter(Boolean)
+    .join(" | ");
+  const blocks = [
+    section(`*<${hnUserUrl(user.id)}|${escapeMrkdwn(user.id)}>*\n${stats}`),
+  ];
+  if (user.about) {
+    blocks.push(
+      context(escapeMrkdwn(truncate(user.about, 600)).replace(/\n+/g, " "))
+    );
+  }
+  return blocks;
+};
+
+export const commentBlocks = (
+  story: NormalizedItem,
+  comments: CommentNode[]
+): Block[] => {
+  const blocks: Block[] = [context(`Top comments on ${storyLine(story)}`)];
+  if (!comments.length) {
+    blocks.push(section("_No comments yet._"));
+    return blocks;
+  }
+  for (const c of comments) {
+    const text = escapeMrkdwn(truncate(c.text ?? "", 600)).replace(
+      /\n+/g,
+      "\n> "
+    );
+    const byline = [escapeMrkdwn(c.by ?? "unknown"), c.time_ago]
+      .filter(Boolean)
+      .join(", ");
+    const replies =
+      c.kids_count === 1
+        ? " · 1 reply"
+        : c.kids_count
+        ? ` · ${c.kids_count} replies`
+        : "";
+    blocks.push(
+      section(`> ${text}\n<${hnItemUrl(c.id ?? 0)}|${byline}>${replies}`)
+    );
+  }
+  return blocks;
+};
+
+export const previousDiscussionBlocks = (
+  story: NormalizedItem,
+  discussions: PreviousDiscussion[]
+): Block[] => {
+  if (!discussions.length) {
+    return [context(`No earlier submissions of ${storyLine(story)}`)];
+  }
+  return [
+    context(`Earlier submissions of ${storyLine(story)}`),
+    section(
+      discussions
+        .map(
+          (d) =>
+            `• <${d.comments_url}|${d.created_at?.slice(0, 10) ?? "?"}> ${
+              d.points ?? 0
+            } points, ${d.comments_count ?? 0} comments`
+        )
+        .join("\n")
+    ),
+  ];
+};
+
+// Digest message: the TLDR text, then a compact card per story so each one
+// can be acted on in place.
+export const digestBlocks = (
+  title: string,
+  text: string,
+  stories: NormalizedItem[]
+): Block[] =>
+  storyListBlocks(stories, {
+    header: title,
+    intro: textBlocks(text),
+  });
+
+export const tldrBlocks = (story: NormalizedItem, text: string): Block[] => [
+  context(`TLDR of ${storyLine(story)}`),
+  ...textBlocks(text),
+];
@@ -0,0 +1,107 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { LanguageModel } from "ai";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ArticleCache } from "./article-cache";
+import { HackerNewsAPI } from "./hn-api";
+import { HttpClient } from "./http";
+import { PreferenceStore } from "./preferences";
+import { FixtureTransport } from "./record-replay";
+import { ACTION_TLDR, ACTION_TOP_COMMENTS } from "./slack-blocks";
+import { SlackInteractions } from "./slack-interactions";
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/hn", import.meta.url));
+const RESPONSE_URL = "https://hooks.slack.com/actions/T1/1/abc";
+const SCOPE = { team: "T1", channel: "C1", user: "U1" };
+
+let dataDir: string;
+let preferences: PreferenceStore;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), "slack-interactions-"));
+  preferences = new PreferenceStore({
+    path: join(dataDir, "preferences.json"),
+  });
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+// Writes the same TLDR for every story.
+const model: Exclude<LanguageModel, string> = {
+  specificationVersion: "v2",
+  provider: "test",
+  modelId: "mock",
+  supportedUrls: {},
+  doGenerate: async () => ({
+    content: [{ type: "text", text: "- *A tiny SQLite replication tool*" }],
+    finishReason: "stop",
+    usage: { inputTokens: 10, outputTokens: 10, totalTokens: 20 },
+    warnings: [],
+  }),
+  doStream: async () => {
+    throw new Error("not used");
+  },
+};
+
+// `respond` answers posts to the response_url; everything else is replayed
+// from fixtures/hn, and its URL kept in `requested`.
+const setup = (respond: typeof fetch) => {
+  const transport = new FixtureTransport({ mode: "replay", dir: FIXTURES });
+  const requested: string[] = [];
+  const http = new HttpClient({
+    retries: 0,
+    fetch: (url, init) => {
+      requested.push(url);
+      return transport.fetch(url, init);
+    },
+  });
+  const interactions = new SlackInteractions({
+    api: new HackerNewsAPI({ http }),
+    articles: new ArticleCache({ http }),
+    preferences,
+    model,
+    respondTimeoutMs: 50,
+    fetch: respond,
+  });
+  return { interactions, requested };
+};
+
+const posted = async () => new Response("ok");
+
+describe("SlackInteractions TLDR button", () => {
+  it("reads the article by default", async () => {
+    const { interactions, requested } = setup(posted);
+    await interactions.run(ACTION_TLDR, 101, RESPONSE_URL, SCOPE);
+
+    expect(requested).toContain("https://example.com/sqlite-replication");
+  });
+
+  it("leaves the article alone when fetch_articles is off", async () => {
+    preferences.update("channel", SCOPE, { fetch_articles: false }, "U1");
+    const { interactions, requested } = setup(posted);
+    await interactions.run(ACTION_TLDR, 101, RESPONSE_URL, SCOPE);
+
+    expect(requested.length).toBeGreaterThan(0);
+    expect(requested).not.toContain("https://example.com/sqlite-replication");
+  });
+});
+
+describe("SlackInteractions.run", () => {
+  it("gives up on a response_url that never answers", async () => {
+    const hung: typeof fetch = (_, init) =>
+      new Promise((_, reject) =>
+        init?.signal?.addEventListener("abort", () =>
+          reject(init.signal!.reason)
+        )
+      );
+    const { interactions } = setup(hung);
+
+    await expect(
+      interactions.run(ACTION_TOP_COMMENTS, 101, RESPONSE_URL, SCOPE)
+    ).rejects.toMatchObject({ name: "TimeoutError" });
+  });
+});
@@ -0,0 +1,241 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { LanguageModel } from "ai";
+import { ArticleCache } from "./article-cache";
+import { loadComments } from "./comments";
+import { HackerNewsAPI, normalizeItem } from "./hn-api";
+import type { PreferenceScope, PreferenceStore } from "./preferences";
+import { PreviousDiscussions } from "./previous-discussions";
+import {
+  ACTION_OPEN_THREAD,
+  ACTION_PREVIOUS,
+  ACTION_TLDR,
+  ACTION_TOP_COMMENTS,
+  commentBlocks,
+  previousDiscussionBlocks,
+  storyLine,
+  tldrBlocks,
+  type Block,
+} from "./slack-blocks";
+import {
+  DEFAULT_TLDR_READ,
+  collectTldrStories,
+  generateTldr,
+  tldrReadOptions,
+  type TldrReadLimits,
+} from "./tldr";
+
+// Slack signs every request; anything older than this is treated as a replay.
+const MAX_SKEW_SECONDS = 5 * 60;
+
+// Reads a form-encoded Slack request (interactions and slash commands) and
+// checks its signature. Returns null for anything else or a bad signature.
+export const readSlackForm = async (
+  request: Request,
+  signingSecret: string | undefined,
+  now = Date.now()
+): Promise<URLSearchParams | null> => {
+  if (request.method !== "POST") return null;
+  const type = request.headers.get("content-type") ?? "";
+  if (!type.includes("application/x-www-form-urlencoded")) return null;
+  const ts = request.headers.get("x-slack-request-timestamp");
+  const signature = request.headers.get("x-slack-signature");
+  if (!signingSecret || !ts || !signature) return null;
+  if (Math.abs(now / 1000 - Number(ts)) > MAX_SKEW_SECONDS) return null;
+
+  const body = await request.text();
+  const expected = `v0=${createHmac("sha256", signingSecret)
+    .update(`v0:${ts}:${body}`)
+    .digest("hex")}`;
+  const a = Buffer.from(signature);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) return null;
+  return new URLSearchParams(body);
+};
+
+type SlackMessage = {
+  response_type?: "in_channel" | "ephemeral";
+  replace_original?: boolean;
+  text: string;
+  blocks?: Block[];
+};
+
+// Handles the buttons on story cards. Slack wants an answer within three
+// seconds, so the request is acknowledged right away and the result is
+// posted to the action's response_url. Only TLDR needs the model, and it
+// makes a single call rather than a full agent turn.
+export class SlackInteractions {
+  private api: HackerNewsAPI;
+  private articles: ArticleCache;
+  private previous: PreviousDiscussions | null;
+  private preferences: PreferenceStore | null;
+  private signingSecret: string | undefined;
+  private model: LanguageModel | undefined;
+  private tldr: TldrReadLimits;
+  private respondTimeoutMs: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(opts: {
+    api: HackerNewsAPI;
+    articles: ArticleCache;
+    previous?: PreviousDiscussions;
+    // Whose preferences apply is read from the button payload.
+    preferences?: PreferenceStore;
+    signingSecret?: string;
+    // Model for TLDRs.
+    model?: LanguageModel;
+    tldr?: TldrReadLimits;
+    // How long to wait on Slack when posting to a response_url.
+    respondTimeoutMs?: number;
+    fetch?: typeof fetch;
+  }) {
+    this.api = opts.api;
+    this.articles = opts.articles;
+    this.previous = opts.previous ?? null;
+    this.preferences = opts.preferences ?? null;
+    this.signingSecret = opts.signingSecret;
+    this.model = opts.model;
+    this.tldr = opts.tldr ?? DEFAULT_TLDR_READ;
+    this.respondTimeoutMs = opts.respondTimeoutMs ?? 8000;
+    this.fetchImpl = opts.fetch ?? fetch;
+  }
+
+  // Returns null when the request isn't a card button press, so the caller
+  // can hand the untouched request to the next handler.
+  async handle(request: Request): Promise<Response | null> {
+    const form = await readSlackForm(request.clone(), this.signingSecret);
+    const raw = form?.get("payload");
+    if (!raw) return null;
+    let payload: any;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+    const actions: any[] = Array.isArray(payload?.actions)
+      ? payload.actions
+      : [];
+    if (
+      payload?.type !== "block_actions" ||
+      !actions.length ||
+      !actions.every((a) => String(a?.action_id).startsWith("hn_"))
+    ) {
+      return null;
+    }
+
+    const responseUrl: string | undefined = payload.response_url;
+    const scope: PreferenceScope = {
+      team: payload.team?.id ?? null,
+      channel: payload.channel?.id ?? null,
+      user: payload.user?.id ?? null,
+    };
+    for (const action of actions) {
+      const id = Number(action.value);
+      if (!responseUrl || !Number.isInteger(id)) continue;
+      this.run(action.action_id, id, responseUrl, scope).catch(() => undefined);
+    }
+    return new Response("", { status: 200 });
+  }
+
+  async run(
+    actionId: string,
+    id: number,
+    responseUrl: string,
+    scope?: PreferenceScope
+  ) {
+    // Link buttons also send a payload; the browser already did the work.
+    if (actionId === ACTION_OPEN_THREAD) return;
+    try {
+      const message = await this.message(actionId, id, responseUrl, scope);
+      if (message) await this.respond(responseUrl, message);
+    } catch (e) {
+      await this.respond(responseUrl, {
+        response_type: "ephemeral",
+        replace_original: false,
+        text: `Sorry, that didn't work: ${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      });
+    }
+  }
+
+  private async message(
+    actionId: string,
+    id: number,
+    responseUrl: string,
+    scope?: PreferenceScope
+  ): Promise<SlackMessage | null> {
+    const item = await this.api.getItem(id);
+    if (!item) {
+      return {
+        response_type: "ephemeral",
+        replace_original: false,
+        text: `HN item ${id} was not found.`,
+      };
+    }
+    const story = normalizeItem(item);
+
+    if (actionId === ACTION_TOP_COMMENTS) {
+      // HN orders top-level comments by rank; skip the dead and deleted.
+      const page = Array.isArray(item.kids)
+        ? await loadComments(this.api, item, { maxDepth: 0, maxComments: 10 })
+        : { comments: [] };
+      const live = page.comments
+        .filter((c) => c.text && !c.dead && !c.deleted)
+        .slice(0, 5);
+      return {
+        response_type: "in_channel",
+        replace_original: false,
+        text: `Top comments on ${story.title ?? id}`,
+        blocks: commentBlocks(story, live),
+      };
+    }
+
+    if (actionId === ACTION_PREVIOUS && this.previous && item.url) {
+      const found = await this.previous.find(item.url, { excludeId: id });
+      return {
+        response_type: "in_channel",
+        replace_original: false,
+        text: `Earlier submissions of ${story.title ?? id}`,
+        blocks: previousDiscussionBlocks(story, found?.discussions ?? []),
+      };
+    }
+
+    if (actionId === ACTION_TLDR) {
+      await this.respond(responseUrl, {
+        response_type: "ephemeral",
+        replace_original: false,
+        text: `Summarizing ${storyLine(story)}…`,
+      });
+      const prefs =
+        this.preferences && scope
+          ? this.preferences.effective(scope).preferences
+          : {};
+      const { stories } = await collectTldrStories(
+        { api: this.api, articles: this.articles },
+        [id],
+        {
+          include_article: prefs.fetch_articles ?? true,
+          include_comments: true,
+          ...tldrReadOptions(this.tldr),
+        }
+      );
+      const text = await generateTldr(stories, "slack", { model: this.model });
+      return {
+        response_type: "in_channel",
+        replace_original: false,
+        text,
+        blocks: tldrBlocks(story, text),
+      };
+    }
+    return null;
+  }
+
+  private async respond(responseUrl: string, message: SlackMessage) {
+    await this.fetchImpl(responseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(this.respondTimeoutMs),
+    });
+  }
+}
@@ -0,0 +1,410 @@
+import {
+  HN_FEEDS,
+  HackerNewsAPI,
+  normalizeItem,
+  stripHtml,
+  type HNFeed,
+} from "./hn-api";
+import { HackerNewsSearch } from "./hn-search";
+import { PreviousDiscussions } from "./previous-discussions";
+import {
+  escapeMrkdwn,
+  itemBlocks,
+  storyListBlocks,
+  textBlocks,
+  userBlocks,
+  type Block,
+} from "./slack-blocks";
+import { readSlackForm } from "./slack-interactions";
+
+export type HnCommand =
+  | { kind: "help" }
+  | { kind: "top"; feed: HNFeed; count: number }
+  | { kind: "item"; id: number }
+  | { kind: "item"; url: string }
+  | { kind: "user"; name: string }
+  | { kind: "search"; query: string }
+  | { kind: "ask"; question: string }
+  | { kind: "error"; message: string };
+
+export const slashUsage = (command = "/hn") =>
+  [
+    `*${command} top [n] [feed]* - top stories, e.g. \`${command} top 5 best\` (feeds: ${HN_FEEDS.join(
+      ", "
+    )})`,
+    `*${command} item <id|url>* - one story or comment, or the HN thread for a link`,
+    `*${command} user <name>* - an HN user's profile`,
+    `*${command} search <query>* - search HN stories`,
+    `*${command} ask <question>* - ask Hacker Tracker anything about HN`,
+  ].join("\n");
+
+// Accepts plurals too: "jobs", "shows".
+const feedName = (word: string): HNFeed | null => {
+  const w = word.toLowerCase();
+  const feeds = HN_FEEDS as readonly string[];
+  if (feeds.includes(w)) return w as HNFeed;
+  if (feeds.includes(w.replace(/s$/, ""))) return w.replace(/s$/, "") as HNFeed;
+  return null;
+};
+
+// HN item links carry the id in the query string; anything else that is a
+// URL is a link to look up.
+const parseItemTarget = (
+  arg: string
+): { id: number } | { url: string } | null => {
+  const target = arg.replace(/^<(.+?)(\|.*)?>$/, "$1").replace(/^#/, "");
+  if (/^\d+$/.test(target)) return { id: Number(target) };
+  let u: URL;
+  try {
+    u = new URL(target);
+  } catch {
+    return null;
+  }
+  if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+  const id = u.searchParams.get("id");
+  if (u.hostname === "news.ycombinator.com" && id && /^\d+$/.test(id)) {
+    return { id: Number(id) };
+  }
+  return { url: u.toString() };
+};
+
+// Parses the text after the command. Never throws: mistakes come back as
+// { kind: "error" } with a message meant for the person who typed it.
+export const parseHnCommand = (
+  text: string,
+  maxStories = 10,
+  defaultStories = 5
+): HnCommand => {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (!words.length) return { kind: "help" };
+  const sub = words[0].toLowerCase();
+  const args = words.slice(1);
+  const rest = args.join(" ");
+
+  switch (sub) {
+    case "help":
+      return { kind: "help" };
+    case "top": {
+      let feed: HNFeed = "top";
+      let count = Math.min(defaultStories, maxStories);
+      for (const arg of args) {
+        const word = arg.toLowerCase();
+        if (/^\d+$/.test(word)) {
+          count = Number(word);
+          if (count < 1 || count > maxStories) {
+            return {
+              kind: "error",
+              message: `I can show between 1 and ${maxStories} stories at a time.`,
+            };
+          }
+        } else if (feedName(word)) {
+          feed = feedName(word)!;
+        } else {
+          return {
+            kind: "error",
+            message: `\`${arg}\` isn't a feed I know. Try one of: ${HN_FEEDS.join(
+              ", "
+            )}.`,
+          };
+        }
+      }
+      return { kind: "top", feed, count };
+    }
+    case "item": {
+      if (!rest) {
+        return {
+          kind: "error",
+          message: "Which item? Give me an HN id or a link.",
+        };
+      }
+      const target = parseItemTarget(args[0]);
+      if (!target) {
+        return {
+          kind: "error",
+          message: `\`${args[0]}\` doesn't look like an HN id or a link.`,
+        };
+      }
+      return { kind: "item", ...target };
+    }
+    case "user": {
+      const name = args[0]?.replace(/^@/, "");
+      if (!name) return { kind: "error", message: "Which user?" };
+      if (!/^[\w-]{2,15}$/.test(name)) {
+        return {
+          kind: "error",
+          message: `\`${args[0]}\` isn't a valid HN username.`,
+        };
+      }
+      return { kind: "user", name };
+    }
+    case "search":
+      return rest
+        ? { kind: "search", query: rest }
+        : { kind: "error", message: "What should I search for?" };
+    case "ask":
+      return rest
+        ? { kind: "ask", question: rest }
+        : { kind: "error", message: "What would you like to ask?" };
+  }
+
+  // Shortcuts: `/hn best 3`, `/hn 12345` and `/hn <link>`.
+  if (feedName(sub)) {
+    return parseHnCommand(`top ${words.join(" ")}`, maxStories, defaultStories);
+  }
+  if (words.length === 1 && parseItemTarget(words[0])) {
+    return parseHnCommand(`item ${words[0]}`, maxStories, defaultStories);
+  }
+  return {
+    kind: "error",
+    message: `I don't know \`${words[0]}\`. Did you mean \`ask ${words.join(
+      " "
+    )}\`?`,
+  };
+};
+
+type SlackMessage = {
+  response_type: "in_channel" | "ephemeral";
+  text: string;
+  blocks?: Block[];
+};
+
+const ephemeral = (text: string): SlackMessage => ({
+  response_type: "ephemeral",
+  text,
+});
+
+const json = (message: SlackMessage) =>
+  new Response(JSON.stringify(message), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Handles the /hn slash command. Everything except `ask` is answered straight
+// from the HN APIs without the model; `ask` is handed to the agent, whose
+// reply is posted to the command's response_url.
+export class SlashCommands {
+  private api: HackerNewsAPI;
+  private search: HackerNewsSearch;
+  private previous: PreviousDiscussions | null;
+  private ask: ((question: string) => Promise<string>) | null;
+  private signingSecret: string | undefined;
+  private maxStories: number;
+  private defaultStories: number;
+  private replyDeadlineMs: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(opts: {
+    api: HackerNewsAPI;
+    search: HackerNewsSearch;
+    previous?: PreviousDiscussions;
+    // Runs a question through the agent and returns its reply as mrkdwn.
+    ask?: (question: string) => Promise<string>;
+    signingSecret?: string;
+    // Most stories `/hn top` shows, and how many it and `/hn search` show
+    // when no count is given.
+    maxStories?: number;
+    defaultStories?: number;
+    // Slack drops slash command responses that take longer than three
+    // seconds. Anything slower is acknowledged and posted to response_url
+    // when done.
+    replyDeadlineMs?: number;
+    fetch?: typeof fetch;
+  }) {
+    this.api = opts.api;
+    this.search = opts.search;
+    this.previous = opts.previous ?? null;
+    this.ask = opts.ask ?? null;
+    this.signingSecret = opts.signingSecret;
+    this.maxStories = opts.maxStories ?? 10;
+    this.defaultStories = Math.min(opts.defaultStories ?? 5, this.maxStories);
+    this.replyDeadlineMs = opts.replyDeadlineMs ?? 2500;
+    this.fetchImpl = opts.fetch ?? fetch;
+  }
+
+  // Returns null when the request isn't a slash command, so the caller can
+  // hand the untouched request to the next handler.
+  async handle(request: Request): Promise<Response | null> {
+    const form = await readSlackForm(request.clone(), this.signingSecret);
+    const name = form?.get("command");
+    if (!form || !name) return null;
+    const command = parseHnCommand(
+      form.get("text") ?? "",
+      this.maxStories,
+      this.defaultStories
+    );
+    const responseUrl = form.get("response_url");
+
+    if (command.kind === "help") {
+      return json(ephemeral(`Here's what I can do:\n${slashUsage(name)}`));
+    }
+    if (command.kind === "error") {
+      return json(ephemeral(`${command.message}\n\n${slashUsage(name)}`));
+    }
+
+    if (command.kind === "ask") {
+      if (!this.ask || !responseUrl) {
+        return json(ephemeral("Asking questions isn't available here."));
+      }
+      const user = form.get("user_id");
+      this.answer(command.question, user, responseUrl).catch(() => undefined);
+      return json(
+        ephemeral(`Looking into "${escapeMrkdwn(command.question)}"…`)
+      );
+    }
+
+    // Reply inline when the APIs are quick, otherwise acknowledge and post
+    // the result when it's ready.
+    const work = this.message(command).catch(
+      (e): SlackMessage =>
+        ephemeral(
+          `Sorry, that didn't work: ${
+            e instanceof Error ? e.message : String(e)
+          }`
+        )
+    );
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const late = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), this.replyDeadlineMs);
+      timer.unref?.();
+    });
+    const message = await Promise.race([work, late]);
+    clearTimeout(timer);
+    if (message) return json(message);
+    if (responseUrl) {
+      work.then((m) => this.respond(responseUrl, m)).catch(() => undefined);
+    }
+    return json(ephemeral("Still fetching from Hacker News…"));
+  }
+
+  async message(
+    command: Exclude<HnCommand, { kind: "help" | "error" | "ask" }>
+  ): Promise<SlackMessage> {
+    switch (command.kind) {
+      case "top": {
+        const ids = await this.api.getStories(command.feed);
+        const items = (
+          await this.api.getBatchItems(ids.slice(0, command.count))
+        )
+          .filter((i) => i && !i.deleted && !i.dead)
+          .map((i) => normalizeItem(i));
+        const title = `Hacker News ${command.feed}`;
+        if (!items.length) return ephemeral(`No stories in ${command.feed}.`);
+        return {
+          response_type: "in_channel",
+          text: title,
+          blocks: storyListBlocks(items, { header: title, ranked: true }),
+        };
+      }
+      case "item":
+        return "id" in command
+          ? this.itemMessage(command.id)
+          : this.linkMessage(command.url);
+      case "user": {
+        const user = await this.api.getUser(command.name);
+        if (!user) {
+          return ephemeral(
+            `There's no HN user called ${escapeMrkdwn(command.name)}.`
+          );
+        }
+        return {
+          response_type: "in_channel",
+          text: `HN user ${user.id}`,
+          blocks: userBlocks({
+            id: user.id,
+            karma: user.karma ?? null,
+            created: user.created ?? null,
+            about: stripHtml(user.about) || null,
+            submitted_count: Array.isArray(user.submitted)
+              ? user.submitted.length
+              : 0,
+          }),
+        };
+      }
+      case "search": {
+        const res = await this.search.search({
+          query: command.query,
+          tags: ["story"],
+          hitsPerPage: this.defaultStories,
+        });
+        if (!res.hits.length) {
+          return ephemeral(
+            `No HN stories match "${escapeMrkdwn(command.query)}".`
+          );
+        }
+        const title = `HN search: ${command.query}`;
+        return {
+          response_type: "in_channel",
+          text: title,
+          blocks: storyListBlocks(res.hits, {
+            header: title,
+            intro: textBlocks(`_${res.total} matching stories_`),
+          }),
+        };
+      }
+    }
+  }
+
+  private async itemMessage(id: number, note?: string): Promise<SlackMessage> {
+    const item = await this.api.getItem(id);
+    if (!item || item.deleted) return ephemeral(`HN item ${id} was not found.`);
+    const normalized = normalizeItem(item);
+    return {
+      response_type: "in_channel",
+      text: normalized.title ?? `HN item ${id}`,
+      blocks: itemBlocks(normalized, { note, parent: item.parent ?? null }),
+    };
+  }
+
+  // A link that isn't an HN item: show its most discussed submission.
+  private async linkMessage(url: string): Promise<SlackMessage> {
+    if (!this.previous) return ephemeral("Looking up links isn't available.");
+    const found = await this.previous.find(url, { sortBy: "comments" });
+    const top = found?.discussions[0];
+    if (!top) {
+      return ephemeral(`I couldn't find ${escapeMrkdwn(url)} on HN.`);
+    }
+    const note =
+      found.total > 1
+        ? `Submitted ${found.total} times; this is the most discussed.`
+        : undefined;
+    return this.itemMessage(top.id, note);
+  }
+
+  private async answer(
+    question: string,
+    user: string | null,
+    responseUrl: string
+  ) {
+    try {
+      const text = await this.ask!(question);
+      const asked = `${user ? `<@${user}> asked` : "Asked"}: ${escapeMrkdwn(
+        question
+      )}`;
+      await this.respond(responseUrl, {
+        response_type: "in_channel",
+        text,
+        blocks: [
+          { type: "context", elements: [{ type: "mrkdwn", text: asked }] },
+          ...textBlocks(text),
+        ],
+      });
+    } catch (e) {
+      await this.respond(
+        responseUrl,
+        ephemeral(
+          `Sorry, I couldn't answer that: ${
+            e instanceof Error ? e.message : String(e)
+          }`
+        )
+      );
+    }
+  }
+
+  private async respond(responseUrl: string, message: SlackMessage) {
+    await this.fetchImpl(responseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(message),
+    });
+  }
+}
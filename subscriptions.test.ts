@@ -0,0 +1,65 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { SubscriptionStore, managedFrom } from "./subscriptions";
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), "subscriptions-"));
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+const slack = (team: string, channel: string) => ({ team, channel });
+
+const subscription = (
+  channel: string,
+  from: { team: string; channel: string }
+) => ({
+  channel,
+  keywords: ["rust"],
+  domains: [],
+  authors: [],
+  min_score: null,
+  created_by: null,
+  slack: from,
+});
+
+describe("managedFrom", () => {
+  const sub = { channel: "C2", slack: slack("T1", "C1") };
+
+  it("allows the team's posting and creating channels", () => {
+    expect(managedFrom(sub, slack("T1", "C1"))).toBe(true);
+    expect(managedFrom(sub, slack("T1", "C2"))).toBe(true);
+    expect(managedFrom(sub, slack("T1", "C3"))).toBe(false);
+  });
+
+  it("refuses the same channel id from another workspace", () => {
+    expect(managedFrom(sub, slack("T2", "C2"))).toBe(false);
+    expect(managedFrom(sub, { channel: "C2" })).toBe(false);
+    expect(managedFrom(sub, null)).toBe(false);
+  });
+});
+
+describe("SubscriptionStore.list", () => {
+  it("only lists what the asking message can manage", () => {
+    const store = new SubscriptionStore({
+      path: join(dataDir, "subscriptions.json"),
+    });
+    const ours = store.create(subscription("C1", slack("T1", "C1")));
+    const theirs = store.create(subscription("C1", slack("T2", "C1")));
+
+    expect(store.list({ channel: "C1" }).map((s) => s.id)).toEqual([
+      ours.id,
+      theirs.id,
+    ]);
+    expect(
+      store.list({ channel: "C1", from: slack("T1", "C1") }).map((s) => s.id)
+    ).toEqual([ours.id]);
+    expect(store.list({ channel: "C1", from: slack("T1", "C9") })).toEqual([]);
+  });
+});
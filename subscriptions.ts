@@ -0,0 +1,288 @@
+import { randomUUID } from "node:crypto";
+import { now } from "./clock";
+import { HackerNewsAPI, normalizeItem, type NormalizedItem } from "./hn-api";
+import { HNWatcher, type WatchEvent } from "./hn-watcher";
+import { JsonFile, dataPath } from "./json-file";
+
+export type Subscription = {
+  id: string;
+  channel: string;
+  // Any of keywords/domains/authors may match; an empty filter set matches
+  // every story. min_score always applies on top.
+  keywords: string[];
+  domains: string[];
+  authors: string[];
+  min_score: number | null;
+  created_at: number;
+  created_by: string | null;
+  // Slack message metadata captured at creation, used to get a client for
+  // posting alerts later without an incoming message.
+  slack: unknown;
+};
+
+export type SubscriptionInput = Omit<Subscription, "id" | "created_at">;
+
+// Where a Slack message came from: the workspace (team) and channel.
+export type SlackOrigin = { team: string | null; channel: string | null };
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null;
+
+// Reads the origin out of Slack message metadata, such as the `slack` field
+// stored with a subscription or digest.
+export const slackOrigin = (metadata: unknown): SlackOrigin => {
+  const field = (key: string) => {
+    const v = isRecord(metadata) ? metadata[key] : undefined;
+    return typeof v === "string" ? v : null;
+  };
+  return { team: field("team"), channel: field("channel") };
+};
+
+// Subscriptions and digests can only be changed from the workspace that set
+// them up, in the channel they post to or the one they were created from.
+export const managedFrom = (
+  record: { channel: string; slack: unknown },
+  metadata: unknown
+) => {
+  const origin = slackOrigin(record.slack);
+  const from = slackOrigin(metadata);
+  return (
+    origin.team === from.team &&
+    (record.channel === from.channel || origin.channel === from.channel)
+  );
+};
+
+type SubscriptionData = {
+  subscriptions: Subscription[];
+  // channel -> story id -> unix ms of the alert
+  alerted: Record<string, Record<string, number>>;
+};
+
+const ALERT_MEMORY_MS = 7 * 24 * 3600 * 1000;
+
+export const domainOf = (url: string | null | undefined) => {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+};
+
+// True when `host` is `domain` or one of its subdomains.
+export const domainMatches = (host: string, domain: string) => {
+  const want = domain.toLowerCase().replace(/^www\./, "");
+  return host === want || host.endsWith(`.${want}`);
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Word-ish match that still works for terms like "C++" or ".NET".
+export const mentions = (text: string, keyword: string) =>
+  new RegExp(
+    `(^|[^a-z0-9])${escapeRegExp(keyword.toLowerCase())}($|[^a-z0-9])`
+  ).test(text.toLowerCase());
+
+// Which filters of `sub` the item satisfies, ignoring min_score. Null when
+// it does not match at all.
+export const matchFilters = (
+  sub: Subscription,
+  item: NormalizedItem
+): string[] | null => {
+  const reasons: string[] = [];
+  const title = item.title ?? "";
+  for (const kw of sub.keywords) {
+    if (kw && mentions(title, kw)) reasons.push(kw);
+  }
+  const host = domainOf(item.url);
+  if (host) {
+    for (const d of sub.domains) {
+      if (domainMatches(host, d))
+        reasons.push(d.toLowerCase().replace(/^www\./, ""));
+    }
+  }
+  const by = item.by?.toLowerCase();
+  if (by) {
+    for (const a of sub.authors) {
+      if (a.toLowerCase() === by) reasons.push(`by ${item.by}`);
+    }
+  }
+  const hasFilters =
+    sub.keywords.length + sub.domains.length + sub.authors.length > 0;
+  if (hasFilters && !reasons.length) return null;
+  return reasons;
+};
+
+export const matchSubscription = (sub: Subscription, item: NormalizedItem) => {
+  if (item.type !== "story") return null;
+  const reasons = matchFilters(sub, item);
+  if (!reasons) return null;
+  if (sub.min_score != null && (item.score ?? 0) < sub.min_score) return null;
+  return reasons;
+};
+
+export class SubscriptionStore {
+  private file: JsonFile<SubscriptionData>;
+
+  constructor(opts?: { path?: string }) {
+    this.file = new JsonFile<SubscriptionData>(
+      opts?.path ?? dataPath("subscriptions.json"),
+      () => ({ subscriptions: [], alerted: {} })
+    );
+  }
+
+  // `from` is Slack message metadata; when given, only subscriptions that
+  // can be managed from that message are listed.
+  list(filter?: { channel?: string; from?: unknown }): Subscription[] {
+    return this.file.data.subscriptions.filter(
+      (s) =>
+        (!filter?.channel || s.channel === filter.channel) &&
+        (filter?.from === undefined || managedFrom(s, filter.from))
+    );
+  }
+
+  get(id: string): Subscription | null {
+    return this.file.data.subscriptions.find((s) => s.id === id) ?? null;
+  }
+
+  create(input: SubscriptionInput): Subscription {
+    const sub: Subscription = {
+      ...input,
+      id: randomUUID().slice(0, 8),
+      created_at: now(),
+    };
+    this.file.data.subscriptions.push(sub);
+    this.file.save();
+    return sub;
+  }
+
+  delete(id: string): boolean {
+    const before = this.file.data.subscriptions.length;
+    this.file.data.subscriptions = this.file.data.subscriptions.filter(
+      (s) => s.id !== id
+    );
+    const removed = this.file.data.subscriptions.length !== before;
+    if (removed) this.file.save();
+    return removed;
+  }
+
+  hasAlerted(channel: string, storyId: number) {
+    return !!this.file.data.alerted[channel]?.[storyId];
+  }
+
+  markAlerted(channel: string, storyId: number) {
+    const t = now();
+    const byChannel = (this.file.data.alerted[channel] ??= {});
+    byChannel[storyId] = t;
+    for (const [id, at] of Object.entries(byChannel)) {
+      if (t - at > ALERT_MEMORY_MS) delete byChannel[id];
+    }
+    this.file.save();
+  }
+}
+
+export type AlertPoster = (
+  sub: Subscription,
+  item: NormalizedItem,
+  reasons: string[]
+) => Promise<void>;
+
+// Stories that matched a subscription's filters but not yet its min_score.
+// New stories start at 1 point, so these are rechecked after every poll.
+type Candidate = { firstSeen: number; subIds: string[] };
+
+const CANDIDATE_MAX_AGE_MS = 48 * 3600 * 1000;
+const CANDIDATE_MAX = 2000;
+
+export class SubscriptionAlerter {
+  private store: SubscriptionStore;
+  private api: HackerNewsAPI;
+  private watcher: HNWatcher;
+  private post: AlertPoster;
+  private candidates = new Map<number, Candidate>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(opts: {
+    store: SubscriptionStore;
+    api: HackerNewsAPI;
+    watcher: HNWatcher;
+    post: AlertPoster;
+  }) {
+    this.store = opts.store;
+    this.api = opts.api;
+    this.watcher = opts.watcher;
+    this.post = opts.post;
+  }
+
+  // Runs the watcher only while there is something to alert on.
+  sync() {
+    const active = this.store.list().length > 0;
+    if (active && !this.unsubscribe) {
+      this.unsubscribe = this.watcher.on((e) => this.onEvent(e));
+      this.watcher.start();
+    } else if (!active && this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+      this.watcher.stop();
+      this.candidates.clear();
+    }
+  }
+
+  private async onEvent(e: WatchEvent) {
+    switch (e.type) {
+      case "new_story":
+      case "top_entered":
+      case "score_threshold":
+        return this.consider(e.item);
+      case "poll":
+        return this.recheckCandidates();
+    }
+  }
+
+  private async consider(item: NormalizedItem) {
+    if (item.id == null || item.type !== "story") return;
+    const pending: string[] = [];
+    for (const sub of this.store.list()) {
+      if (this.store.hasAlerted(sub.channel, item.id)) continue;
+      const reasons = matchSubscription(sub, item);
+      if (reasons) {
+        // Mark before posting so a slow Slack call can't double-post.
+        this.store.markAlerted(sub.channel, item.id);
+        try {
+          await this.post(sub, item, reasons);
+        } catch {
+          // Alerts are fire-and-forget; Slack errors are not retried.
+        }
+      } else if (matchFilters(sub, item)) {
+        pending.push(sub.id);
+      }
+    }
+    if (pending.length) {
+      const prev = this.candidates.get(item.id);
+      this.candidates.set(item.id, {
+        firstSeen: prev?.firstSeen ?? now(),
+        subIds: pending,
+      });
+      if (this.candidates.size > CANDIDATE_MAX) {
+        const oldest = this.candidates.keys().next().value as number;
+        this.candidates.delete(oldest);
+      }
+    } else {
+      this.candidates.delete(item.id);
+    }
+  }
+
+  private async recheckCandidates() {
+    if (!this.candidates.size) return;
+    const t = now();
+    for (const [id, c] of this.candidates) {
+      if (t - c.firstSeen > CANDIDATE_MAX_AGE_MS) this.candidates.delete(id);
+    }
+    const ids = [...this.candidates.keys()];
+    const items = await this.api.getBatchItems(ids);
+    for (const item of items) {
+      if (item && !item.dead && !item.deleted)
+        await this.consider(normalizeItem(item));
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+// Contract for summarize_hn_tldr's JSON output. Scripts and scheduled jobs
+// that consume TLDRs should validate against tldrResultSchema (or the JSON
+// Schema below) and check schema_version; bump it on breaking changes.
+export const TLDR_SCHEMA_VERSION = 1;
+
+export const TLDR_SENTIMENTS = [
+  "positive",
+  "negative",
+  "mixed",
+  "neutral",
+  // No comments were sampled, or the model gave no usable label.
+  "unknown",
+] as const;
+
+export const tldrStorySchema = z.object({
+  id: z.number().int(),
+  title: z.string().nullable(),
+  links: z.object({
+    article: z.string().nullable(),
+    discussion: z.string(),
+  }),
+  points: z.number().int().nullable(),
+  comments_count: z.number().int().nullable(),
+  by: z.string().nullable(),
+  time_ago: z.string().nullable(),
+  summary: z.array(z.string()).max(3),
+  sentiment: z.enum(TLDR_SENTIMENTS),
+  feedback: z.array(z.string()).max(3),
+});
+
+export const tldrResultSchema = z.object({
+  schema_version: z.literal(TLDR_SCHEMA_VERSION),
+  generated_at: z.string(),
+  stories: z.array(tldrStorySchema),
+});
+
+export type TldrStoryResult = z.infer<typeof tldrStorySchema>;
+export type TldrResult = z.infer<typeof tldrResultSchema>;
+
+export const tldrJsonSchema = z.toJSONSchema(tldrResultSchema);
+
+// What the model is asked for. Facts (title, links, points) are filled in
+// from the HN data afterwards so they can't be misquoted.
+export const tldrModelSchema = z.object({
+  stories: z.array(
+    z.object({
+      id: z.number().int().describe("The story id from the input."),
+      summary: z
+        .array(z.string())
+        .max(3)
+        .describe("2-3 bullets on what the story is about."),
+      sentiment: z
+        .enum(TLDR_SENTIMENTS)
+        .describe("Overall sentiment of the comments sample."),
+      feedback: z
+        .array(z.string())
+        .max(3)
+        .describe("2-3 bullets of feedback/themes from the comments sample."),
+    })
+  ),
+});
+
+export type TldrModelStory = z.infer<typeof tldrModelSchema>["stories"][number];
+
+const stringList = (v: unknown) =>
+  (Array.isArray(v) ? v : typeof v === "string" ? [v] : [])
+    .filter((s): s is string => typeof s === "string" && !!s.trim())
+    .slice(0, 3);
+
+// Repair pass for model output that isn't valid JSON or doesn't match
+// tldrModelSchema: strips code fences and trailing commas, then coerces the
+// usual slips (string instead of list, too many bullets, odd labels).
+// Returns null when there is nothing to salvage.
+export const repairTldrText = (text: string): string | null => {
+  let raw = text.replace(/```(?:json)?/gi, "").trim();
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+  raw = raw.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1");
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  const stories = Array.isArray(data) ? data : data?.stories;
+  if (!Array.isArray(stories)) return null;
+  return JSON.stringify({
+    stories: stories
+      .map((s: any) => {
+        const sentiment = String(s?.sentiment ?? "").toLowerCase();
+        return {
+          id: Number(s?.id),
+          summary: stringList(s?.summary ?? s?.bullets),
+          sentiment: (TLDR_SENTIMENTS as readonly string[]).includes(sentiment)
+            ? sentiment
+            : "unknown",
+          feedback: stringList(s?.feedback),
+        };
+      })
+      .filter((s: { id: number }) => Number.isInteger(s.id)),
+  });
+};
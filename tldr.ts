@@ -0,0 +1,384 @@
+import { generateObject, generateText, type LanguageModel } from "ai";
+import { ArticleCache } from "./article-cache";
+import { flattenComments, loadComments, type CommentPage } from "./comments";
+import { DEFAULT_MODEL } from "./config";
+import {
+  HackerNewsAPI,
+  hnItemUrl,
+  itemStatus,
+  normalizeItem,
+  pMapSettled,
+  type ItemStatus,
+  type NormalizedItem,
+} from "./hn-api";
+import type { FetchFailure } from "./http";
+import {
+  chunkComments,
+  chunkText,
+  estimateTokens,
+  summarizeChunks,
+  withinBudget,
+} from "./map-reduce";
+import type { ArticleMetadata } from "./readability";
+import {
+  TLDR_SCHEMA_VERSION,
+  repairTldrText,
+  tldrModelSchema,
+  tldrResultSchema,
+  type TldrModelStory,
+  type TldrResult,
+} from "./tldr-schema";
+
+export type TldrCollectOptions = {
+  include_article: boolean;
+  include_comments: boolean;
+  max_depth: number;
+  max_comments: number;
+  max_article_chars: number;
+  max_comment_chars: number;
+  // "thorough" reads the whole article and thread through map-reduce
+  // summarization instead of an excerpt and a comment sample.
+  depth?: TldrDepth;
+  // Model for thorough-mode map-reduce notes.
+  model?: LanguageModel;
+  // Stops collection; stories keep whatever had loaded by then.
+  signal?: AbortSignal;
+};
+
+export type TldrDepth = "quick" | "thorough";
+
+// How much of each story a TLDR reads when the caller didn't say: digests
+// and the Summarize button (config `tldr`).
+export type TldrReadLimits = {
+  commentDepth: number;
+  comments: number;
+  articleChars: number;
+  commentChars: number;
+};
+
+export const DEFAULT_TLDR_READ: TldrReadLimits = {
+  commentDepth: 1,
+  comments: 10,
+  articleChars: 2000,
+  commentChars: 500,
+};
+
+export const tldrReadOptions = (read: TldrReadLimits) => ({
+  max_depth: read.commentDepth,
+  max_comments: read.comments,
+  max_article_chars: read.articleChars,
+  max_comment_chars: read.commentChars,
+});
+
+// How much of a story a thorough run actually read.
+export type TldrCoverage = {
+  article_chars: number;
+  article_chars_read: number;
+  comments_loaded: number;
+  comments_read: number;
+  comments_total: number | null;
+};
+
+export type TldrStory = NormalizedItem & {
+  article_excerpt: string | null;
+  article_metadata: ArticleMetadata | null;
+  article_details: Record<string, unknown> | null;
+  article_error: FetchFailure | null;
+  comments_sample: string[];
+  article_digest: string | null;
+  discussion_digest: string | null;
+  coverage: TldrCoverage | null;
+};
+
+// Per-story token budget for thorough runs. The article gets up to 40% and
+// the thread the rest, which fits roughly 1000 average-length comments.
+const THOROUGH_TOKEN_BUDGET = 100_000;
+const THOROUGH_MAX_COMMENTS = 1000;
+const THOROUGH_MAX_DEPTH = 20;
+
+const digestStory = async (
+  item: any,
+  articleText: string | null,
+  page: CommentPage | null,
+  model?: LanguageModel,
+  signal?: AbortSignal
+) => {
+  const articleChunks = articleText ? chunkText(articleText) : [];
+  const commentChunks = page ? chunkComments(page.comments) : [];
+  const keptArticle = withinBudget(articleChunks, THOROUGH_TOKEN_BUDGET * 0.4);
+  const used = keptArticle.reduce((n, c) => n + estimateTokens(c), 0);
+  const keptComments = withinBudget(
+    commentChunks,
+    THOROUGH_TOKEN_BUDGET - used
+  );
+  const context = `Hacker News submission "${item?.title ?? "untitled"}"${
+    item?.url ? ` (${item.url})` : ""
+  }`;
+
+  const [article_digest, discussion_digest] = await Promise.all([
+    keptArticle.length
+      ? summarizeChunks(keptArticle, {
+          focus: "the article's main points, claims and evidence",
+          context,
+          model,
+          signal,
+        })
+      : null,
+    keptComments.length
+      ? summarizeChunks(keptComments, {
+          focus:
+            "the discussion's themes, points of agreement and disagreement, corrections or first-hand expertise, and the overall sentiment",
+          context: `Comments on the ${context}. Indentation is reply depth.`,
+          model,
+          signal,
+        })
+      : null,
+  ]);
+
+  const coverage: TldrCoverage = {
+    article_chars: articleText?.length ?? 0,
+    article_chars_read: Math.min(
+      articleText?.length ?? 0,
+      keptArticle.reduce((n, c) => n + c.length, 0)
+    ),
+    comments_loaded: page?.loaded ?? 0,
+    comments_read: keptComments.reduce((n, c) => n + c.split("\n").length, 0),
+    comments_total:
+      typeof item?.descendants === "number" ? item.descendants : null,
+  };
+  return { article_digest, discussion_digest, coverage };
+};
+
+export type TldrFormat = "markdown" | "slack";
+
+// Share of a summary deadline spent loading stories and comments; the rest
+// is left for the model.
+export const COLLECT_SHARE = 0.6;
+
+export type TldrCollection = {
+  stories: TldrStory[];
+  // One per requested id, in order.
+  statuses: ItemStatus[];
+};
+
+// Gathers what the TLDR prompt needs for each story: the normalized item, an
+// article excerpt and a flat sample of comments. Shared by summarize_hn_tldr
+// and scheduled digests. Stories that fail to load are dropped and reported
+// in `statuses`; stories the signal cut short are kept as "partial".
+export const collectTldrStories = async (
+  { api, articles }: { api: HackerNewsAPI; articles: ArticleCache },
+  ids: number[],
+  opts: TldrCollectOptions
+): Promise<TldrCollection> => {
+  const {
+    include_article,
+    include_comments,
+    max_depth,
+    max_comments,
+    max_article_chars,
+    max_comment_chars,
+  } = opts;
+  const thorough = opts.depth === "thorough";
+
+  const items = await api.getBatchItemsSettled(ids, { signal: opts.signal });
+
+  const results = await pMapSettled(
+    ids,
+    async (id, i, signal) => {
+      const loaded = items[i];
+      if (loaded.status !== "fulfilled") {
+        return { status: itemStatus(id, loaded), story: null };
+      }
+      const item = loaded.value;
+      if (!item) {
+        return {
+          status: { id, status: "error", error: "Item not found" } as const,
+          story: null,
+        };
+      }
+      const base = normalizeItem(item);
+      let cut = false;
+
+      let article_text: string | null = null;
+      let article_metadata: ArticleMetadata | null = null;
+      let article_details: Record<string, unknown> | null = null;
+      let article_error: FetchFailure | null = null;
+      if (include_article && item?.url) {
+        const article = await articles.fetch(item.url, { signal });
+        if (article.ok) {
+          article_text = article.value.text;
+          article_metadata = article.value.metadata;
+          article_details = article.value.details ?? null;
+        } else {
+          article_error = article.error;
+          cut ||= signal.aborted;
+        }
+      }
+
+      let page: CommentPage | null = null;
+      if (include_comments && Array.isArray(item?.kids) && item.kids.length) {
+        try {
+          page = await loadComments(api, item, {
+            ...(thorough
+              ? {
+                  maxDepth: THOROUGH_MAX_DEPTH,
+                  maxComments: THOROUGH_MAX_COMMENTS,
+                }
+              : { maxDepth: max_depth, maxComments: max_comments }),
+            signal,
+          });
+          cut ||= page.partial;
+        } catch (e) {
+          if (!signal.aborted) throw e;
+          cut = true;
+        }
+      }
+
+      let digest: Awaited<ReturnType<typeof digestStory>> | null = null;
+      if (thorough && (article_text || page) && !signal.aborted) {
+        try {
+          digest = await digestStory(
+            item,
+            article_text,
+            page,
+            opts.model,
+            signal
+          );
+        } catch {
+          // Fall back to the quick excerpt and sample below.
+          cut ||= signal.aborted;
+        }
+      }
+
+      const flatComments: string[] = [];
+      if (page && !digest?.discussion_digest) {
+        for (const c of flattenComments(page.comments)) {
+          if (flatComments.length >= max_comments) break;
+          if (c.text) flatComments.push(c.text.slice(0, max_comment_chars));
+        }
+      }
+
+      const story: TldrStory = {
+        ...base,
+        article_excerpt: article_text?.slice(0, max_article_chars) ?? null,
+        article_metadata,
+        article_details,
+        article_error,
+        comments_sample: flatComments,
+        article_digest: digest?.article_digest ?? null,
+        discussion_digest: digest?.discussion_digest ?? null,
+        coverage: digest?.coverage ?? null,
+      };
+      return {
+        status: { id, status: cut ? "partial" : "ok" } as ItemStatus,
+        story,
+      };
+    },
+    // Thorough stories each fan out into several model calls.
+    thorough ? 3 : api.concurrency,
+    opts.signal
+  );
+
+  const stories: TldrStory[] = [];
+  const statuses = results.map((r, i) => {
+    if (r.status !== "fulfilled") return itemStatus(ids[i], r);
+    if (r.value.story) stories.push(r.value.story);
+    return r.value.status;
+  });
+  return { stories, statuses };
+};
+
+const FORMAT_INSTRUCTIONS: Record<TldrFormat, string> = {
+  markdown: "markdown",
+  slack:
+    "Slack mrkdwn (*bold*, _italics_, <url|text> links, no headings, no double asterisks)",
+};
+
+export const generateTldr = async (
+  stories: TldrStory[],
+  format: TldrFormat,
+  opts?: { model?: LanguageModel; signal?: AbortSignal }
+): Promise<string> => {
+  const prompt = `You are generating concise TLDRs for Hacker News items. For each story:
+- Include links, points, comment count, and time ago.
+            - Provide 2–3 bullet points summarizing what the story is about (based on title, article excerpt, or Ask HN text).
+- Provide overall sentiment and 2–3 bullets of feedback/themes observed in the comments sample.
+- When article_digest or discussion_digest is present, it covers the whole article or thread; prefer it over the excerpt and sample.
+- Be neutral and factual; avoid speculation.
+Return ${FORMAT_INSTRUCTIONS[format]} format.`;
+
+  const { text } = await generateText({
+    model: opts?.model ?? DEFAULT_MODEL,
+    system: prompt,
+    prompt: JSON.stringify(stories, null, 2),
+    abortSignal: opts?.signal,
+  });
+  return text;
+};
+
+// JSON TLDRs are generated against tldrModelSchema, repaired if the model
+// slips, then merged with the HN facts and validated against the published
+// tldrResultSchema. Stories the model skipped (or all of them, if generation
+// fails outright) come back with empty bullets and an "unknown" sentiment,
+// and a warning says so; the output always matches the schema.
+export const generateTldrJson = async (
+  stories: TldrStory[],
+  opts?: { model?: LanguageModel; signal?: AbortSignal }
+): Promise<{ output: TldrResult; warnings: string[] }> => {
+  const warnings: string[] = [];
+  let generated: Map<number, TldrModelStory>;
+  try {
+    const { object } = await generateObject({
+      model: opts?.model ?? DEFAULT_MODEL,
+      schema: tldrModelSchema,
+      system: `You are generating concise TLDRs for Hacker News items. For each story in the input, return its id and:
+- summary: 2–3 bullets on what the story is about (based on title, article excerpt, or Ask HN text).
+- sentiment: the overall sentiment of the comments sample; "unknown" if there is no comments sample.
+- feedback: 2–3 bullets of feedback/themes observed in the comments sample; empty if there is none.
+When article_digest or discussion_digest is present, it covers the whole article or thread; prefer it over the excerpt and sample.
+Be neutral and factual; avoid speculation.`,
+      prompt: JSON.stringify(stories, null, 2),
+      experimental_repairText: async ({ text }) => repairTldrText(text),
+      abortSignal: opts?.signal,
+    });
+    generated = new Map(object.stories.map((s) => [s.id, s]));
+  } catch (e) {
+    warnings.push(
+      opts?.signal?.aborted
+        ? "TLDR generation was cut off by the deadline; returning story facts only."
+        : `TLDR generation failed (${
+            e instanceof Error ? e.message : String(e)
+          }); returning story facts only.`
+    );
+    generated = new Map();
+  }
+
+  const missing: number[] = [];
+  const output = tldrResultSchema.parse({
+    schema_version: TLDR_SCHEMA_VERSION,
+    generated_at: new Date().toISOString(),
+    stories: stories.map((s) => {
+      const g = s.id != null ? generated.get(s.id) : undefined;
+      if (!g && generated.size) missing.push(s.id ?? 0);
+      return {
+        id: s.id ?? 0,
+        title: s.title,
+        links: {
+          article: s.url,
+          discussion: s.comments_url ?? hnItemUrl(s.id ?? 0),
+        },
+        points: s.score,
+        comments_count: s.comments_count,
+        by: s.by,
+        time_ago: s.time_ago,
+        summary: g?.summary ?? [],
+        sentiment: g?.sentiment ?? "unknown",
+        feedback: g?.feedback ?? [],
+      };
+    }),
+  });
+  if (missing.length) {
+    warnings.push(`No TLDR generated for stories ${missing.join(", ")}.`);
+  }
+  return { output, warnings };
+};
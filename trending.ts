@@ -0,0 +1,205 @@
+import { HackerNewsAPI, normalizeItem, type NormalizedItem } from "./hn-api";
+import { now as clockNow } from "./clock";
+import { JsonFile, dataPath } from "./json-file";
+
+export type Snapshot = {
+  // unix ms
+  t: number;
+  // 1-based front-page rank, null once the story has dropped off
+  rank: number | null;
+  score: number;
+  comments: number;
+};
+
+type SnapshotData = { stories: Record<string, Snapshot[]> };
+
+export type TrendingStory = NormalizedItem & {
+  rank: number | null;
+  rank_change: number | null;
+  points_per_hour: number;
+  comments_per_hour: number;
+  // "window" when computed from snapshots, "lifetime" when only the item's
+  // age was available.
+  rate_basis: "window" | "lifetime";
+  history?: Snapshot[];
+};
+
+export class SnapshotStore {
+  private file: JsonFile<SnapshotData>;
+  private maxAgeMs: number;
+  private maxPerStory: number;
+  private maxStories: number;
+
+  constructor(opts?: {
+    path?: string;
+    maxAgeMs?: number;
+    maxPerStory?: number;
+    maxStories?: number;
+  }) {
+    this.file = new JsonFile<SnapshotData>(
+      opts?.path ?? dataPath("snapshots.json"),
+      () => ({ stories: {} })
+    );
+    this.maxAgeMs = opts?.maxAgeMs ?? 48 * 3600 * 1000;
+    this.maxPerStory = opts?.maxPerStory ?? 288;
+    this.maxStories = opts?.maxStories ?? 500;
+  }
+
+  history(id: number): Snapshot[] {
+    return this.file.data.stories[id] ?? [];
+  }
+
+  isEmpty() {
+    return Object.keys(this.file.data.stories).length === 0;
+  }
+
+  append(entries: { id: number; snapshot: Snapshot }[]) {
+    const stories = this.file.data.stories;
+    for (const { id, snapshot } of entries) {
+      (stories[id] ??= []).push(snapshot);
+    }
+    this.prune(entries.length ? entries[0].snapshot.t : clockNow());
+    this.file.save();
+  }
+
+  private prune(now: number) {
+    const stories = this.file.data.stories;
+    for (const [id, snaps] of Object.entries(stories)) {
+      const kept = snaps
+        .filter((s) => now - s.t <= this.maxAgeMs)
+        .slice(-this.maxPerStory);
+      if (kept.length) stories[id] = kept;
+      else delete stories[id];
+    }
+    const ids = Object.keys(stories);
+    if (ids.length > this.maxStories) {
+      // Drop the stories seen least recently.
+      const lastSeen = (id: string) => stories[id][stories[id].length - 1].t;
+      ids
+        .sort((a, b) => lastSeen(a) - lastSeen(b))
+        .slice(0, ids.length - this.maxStories)
+        .forEach((id) => delete stories[id]);
+    }
+  }
+}
+
+// Snapshots the front page on an interval so velocity can be computed from
+// how scores and comment counts move, not just where they stand.
+export class TrendTracker {
+  private api: HackerNewsAPI;
+  private store: SnapshotStore;
+  private topN: number;
+  private intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(opts: {
+    api: HackerNewsAPI;
+    store: SnapshotStore;
+    topN?: number;
+    intervalMs?: number;
+  }) {
+    this.api = opts.api;
+    this.store = opts.store;
+    this.topN = opts.topN ?? 30;
+    this.intervalMs = Math.max(60 * 1000, opts.intervalMs ?? 5 * 60 * 1000);
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.record().catch(() => {});
+    }, this.intervalMs);
+    if (typeof this.timer.unref === "function") this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async record(): Promise<void> {
+    // Cached items can be minutes old; a snapshot needs current numbers.
+    await this.api.invalidateFeed("top");
+    const ids = (await this.api.getStories("top")).slice(0, this.topN);
+    await this.api.invalidateItems(ids);
+    const items = await this.api.getBatchItems(ids);
+    const t = clockNow();
+    const entries: { id: number; snapshot: Snapshot }[] = [];
+    items.forEach((item, i) => {
+      if (!item?.id) return;
+      entries.push({
+        id: item.id,
+        snapshot: {
+          t,
+          rank: i + 1,
+          score: item.score ?? 0,
+          comments: item.descendants ?? 0,
+        },
+      });
+    });
+    this.store.append(entries);
+  }
+
+  async trending(opts: {
+    limit: number;
+    windowMinutes: number;
+    sortBy: "points" | "comments";
+    historyPoints: number;
+    signal?: AbortSignal;
+  }): Promise<TrendingStory[]> {
+    if (this.store.isEmpty()) await this.record();
+
+    const { signal } = opts;
+    const ids = (await this.api.getStories("top", { signal })).slice(
+      0,
+      this.topN
+    );
+    const items = await this.api.getBatchItems(ids, { signal });
+    const now = clockNow();
+    const windowStart = now - opts.windowMinutes * 60 * 1000;
+
+    const rows: TrendingStory[] = [];
+    items.forEach((item, i) => {
+      if (!item?.id) return;
+      const history = this.store.history(item.id);
+      const inWindow = history.filter((s) => s.t >= windowStart);
+      const score = item.score ?? 0;
+      const comments = item.descendants ?? 0;
+
+      let points_per_hour: number;
+      let comments_per_hour: number;
+      let rate_basis: TrendingStory["rate_basis"];
+      const first = inWindow[0];
+      const hours = first ? (now - first.t) / 3600000 : 0;
+      // Under ~5 minutes of data the rate is mostly noise.
+      if (first && hours >= 1 / 12) {
+        points_per_hour = (score - first.score) / hours;
+        comments_per_hour = (comments - first.comments) / hours;
+        rate_basis = "window";
+      } else {
+        const age = item.time ? (now / 1000 - item.time) / 3600 : 0;
+        const ageHours = Math.max(age, 1 / 12);
+        points_per_hour = score / ageHours;
+        comments_per_hour = comments / ageHours;
+        rate_basis = "lifetime";
+      }
+
+      const previousRank = first?.rank ?? null;
+      rows.push({
+        ...normalizeItem(item),
+        rank: i + 1,
+        rank_change: previousRank === null ? null : previousRank - (i + 1),
+        points_per_hour: Math.round(points_per_hour * 10) / 10,
+        comments_per_hour: Math.round(comments_per_hour * 10) / 10,
+        rate_basis,
+        ...(opts.historyPoints > 0
+          ? { history: history.slice(-opts.historyPoints) }
+          : {}),
+      });
+    });
+
+    const key =
+      opts.sortBy === "comments" ? "comments_per_hour" : "points_per_hour";
+    return rows.sort((a, b) => b[key] - a[key]).slice(0, opts.limit);
+  }
+}
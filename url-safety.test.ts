@@ -0,0 +1,66 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { HttpClient } from "./http";
+import { UrlPolicy, type ResolvedAddress } from "./url-safety";
+
+let server: Server;
+let port: number;
+
+beforeEach(async () => {
+  server = createServer((req, res) =>
+    res.end(`hello from ${req.headers.host}`)
+  );
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  port = (server.address() as AddressInfo).port;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// Stands in for a public address that passed the check: the real check
+// refuses loopback, so this policy vets the host as 127.0.0.1 directly.
+class VettedAsLoopback extends UrlPolicy {
+  checked: string[] = [];
+  async check(url: string): Promise<ResolvedAddress[]> {
+    this.checked.push(url);
+    return [{ address: "127.0.0.1", family: 4 }];
+  }
+}
+
+describe("UrlPolicy.pin", () => {
+  it("connects to the checked address, not a fresh lookup", async () => {
+    const policy = new VettedAsLoopback();
+    const http = new HttpClient({ policy, retries: 0 });
+    // .invalid never resolves, so only the pinned address can answer.
+    const url = `http://pinned.invalid:${port}/`;
+
+    const res = await http.request(url);
+    expect(new TextDecoder().decode(res.body)).toBe(
+      `hello from pinned.invalid:${port}`
+    );
+    expect(policy.checked).toEqual([url]);
+  });
+
+  it("gives up on a slow lookup when the request times out", async () => {
+    const policy = new UrlPolicy({ lookup: () => new Promise(() => {}) });
+    const http = new HttpClient({ policy, retries: 0, timeoutMs: 50 });
+
+    await expect(http.request("http://slow.example/")).rejects.toMatchObject({
+      kind: "timeout",
+    });
+  });
+
+  it("refuses hosts that resolve to a private address", async () => {
+    const policy = new UrlPolicy({
+      lookup: async () => [{ address: "10.0.0.5", family: 4 }],
+    });
+
+    await expect(policy.pin("https://intranet.example/")).rejects.toMatchObject(
+      { kind: "blocked" }
+    );
+  });
+});
@@ -0,0 +1,204 @@
+import { lookup as dnsLookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { Agent, type Dispatcher } from "undici";
+import { HttpError, abortable } from "./http";
+
+export type ResolvedAddress = { address: string; family: number };
+
+export type LookupFn = (host: string) => Promise<ResolvedAddress[]>;
+
+const ipv4Parts = (ip: string) => ip.split(".").map(Number);
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254),
+// carrier-grade NAT, benchmarking, multicast and reserved ranges.
+const privateIPv4 = (ip: string) => {
+  const [a, b] = ipv4Parts(ip);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && ipv4Parts(ip)[2] === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+};
+
+// Expands "::"-shortened IPv6 into eight 16-bit groups. An embedded IPv4
+// tail (::ffff:10.0.0.1) becomes the last two groups.
+const ipv6Groups = (ip: string): number[] => {
+  let addr = ip.split("%")[0].toLowerCase();
+  const v4 = addr.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const [a, b, c, d] = ipv4Parts(v4[1]);
+    addr =
+      addr.slice(0, -v4[1].length) +
+      `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = addr.split("::");
+  const parse = (s: string | undefined) =>
+    s ? s.split(":").map((g) => parseInt(g, 16)) : [];
+  const h = parse(head);
+  const t = parse(tail);
+  if (tail === undefined) return h;
+  return [...h, ...Array(8 - h.length - t.length).fill(0), ...t];
+};
+
+const embeddedIPv4 = (hi: number, lo: number) =>
+  `${hi >> 8}.${hi & 0xff}.${lo >> 8}.${lo & 0xff}`;
+
+const privateIPv6 = (ip: string) => {
+  const g = ipv6Groups(ip);
+  if (g.every((x) => x === 0)) return true; // ::
+  if (g.slice(0, 7).every((x) => x === 0) && g[7] === 1) return true; // ::1
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) carry an IPv4
+  // address that is what actually gets reached.
+  if (g.slice(0, 5).every((x) => x === 0) && g[5] === 0xffff)
+    return privateIPv4(embeddedIPv4(g[6], g[7]));
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((x) => x === 0))
+    return privateIPv4(embeddedIPv4(g[6], g[7]));
+  // 6to4 (2002::/16) embeds the IPv4 address in the next two groups.
+  if (g[0] === 0x2002) return privateIPv4(embeddedIPv4(g[1], g[2]));
+  return (
+    (g[0] & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (g[0] & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (g[0] & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+};
+
+// True for addresses a fetch on behalf of a stranger must never reach.
+export const isPrivateAddress = (ip: string) => {
+  const family = isIP(ip);
+  if (family === 4) return privateIPv4(ip);
+  if (family === 6) return privateIPv6(ip);
+  return true;
+};
+
+const normalizeDomain = (d: string) =>
+  d
+    .trim()
+    .toLowerCase()
+    .replace(/^\*?\./, "")
+    .replace(/\.$/, "");
+
+const inDomains = (host: string, domains: string[]) =>
+  domains.some((d) => host === d || host.endsWith(`.${d}`));
+
+// Decides whether a URL may be fetched on behalf of an untrusted link (an HN
+// submission). Only http/https, never to private, loopback or link-local
+// addresses as resolved by DNS, and subject to the admin's domain lists.
+// HttpClient checks every redirect hop against the same policy.
+//
+// The connection for each hop goes to the addresses that were checked, not
+// to a second lookup, so a DNS server that answers differently the second
+// time can't swap in a private address.
+export class UrlPolicy {
+  private denyDomains: string[];
+  private allowDomains: string[];
+  private lookup: LookupFn;
+
+  constructor(opts?: {
+    // Never fetched; subdomains included.
+    denyDomains?: string[];
+    // When non-empty, only these domains (and their subdomains) are fetched.
+    allowDomains?: string[];
+    lookup?: LookupFn;
+  }) {
+    this.denyDomains = (opts?.denyDomains ?? [])
+      .map(normalizeDomain)
+      .filter(Boolean);
+    this.allowDomains = (opts?.allowDomains ?? [])
+      .map(normalizeDomain)
+      .filter(Boolean);
+    this.lookup =
+      opts?.lookup ??
+      ((host) => dnsLookup(host, { all: true, verbatim: true }));
+  }
+
+  // Throws HttpError("blocked") when the URL must not be fetched. Returns the
+  // addresses the host resolved to, or none for an IP literal. The lookup
+  // gives up when `signal` aborts.
+  async check(url: string, signal?: AbortSignal): Promise<ResolvedAddress[]> {
+    let u: URL;
+    try {
+      u = new URL(url);
+    } catch {
+      throw new HttpError("blocked", url, `Invalid URL: ${url}`);
+    }
+    if (u.protocol !== "http:" && u.protocol !== "https:") {
+      throw new HttpError("blocked", url, `Unsupported scheme ${u.protocol}`);
+    }
+    if (u.username || u.password) {
+      throw new HttpError(
+        "blocked",
+        url,
+        "URLs with credentials aren't fetched"
+      );
+    }
+
+    const host = u.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+    const name = host.replace(/\.$/, "");
+    if (inDomains(name, this.denyDomains)) {
+      throw new HttpError("blocked", url, `${name} is on the deny list`);
+    }
+    if (this.allowDomains.length && !inDomains(name, this.allowDomains)) {
+      throw new HttpError("blocked", url, `${name} is not on the allow list`);
+    }
+
+    if (isIP(host)) {
+      if (isPrivateAddress(host)) {
+        throw new HttpError("blocked", url, `${host} is a private address`);
+      }
+      return [];
+    }
+    let addresses: ResolvedAddress[];
+    try {
+      addresses = await abortable(this.lookup(host), signal);
+    } catch (e) {
+      if (e instanceof HttpError) throw e;
+      throw new HttpError(
+        "network",
+        url,
+        `Couldn't resolve ${host}: ${
+          e instanceof Error ? e.message : String(e)
+        }`
+      );
+    }
+    if (!addresses.length) {
+      throw new HttpError("network", url, `Couldn't resolve ${host}`);
+    }
+    // One private answer is enough: the connection may pick any of them.
+    const bad = addresses.find((a) => isPrivateAddress(a.address));
+    if (bad) {
+      throw new HttpError(
+        "blocked",
+        url,
+        `${host} resolves to a private address (${bad.address})`
+      );
+    }
+    return addresses;
+  }
+
+  // Checks the URL and returns a dispatcher that connects only to the
+  // checked addresses, or null when there is nothing to pin. TLS still
+  // verifies the certificate against the host name. Close it when done.
+  async pin(url: string, signal?: AbortSignal): Promise<Dispatcher | null> {
+    const addresses = await this.check(url, signal);
+    if (!addresses.length) return null;
+    return new Agent({
+      connect: {
+        lookup: (_host, options, callback) => {
+          const wanted = addresses.filter(
+            (a) => !options.family || a.family === options.family
+          );
+          const pinned = wanted.length ? wanted : addresses;
+          if (options.all) callback(null, pinned);
+          else callback(null, pinned[0].address, pinned[0].family);
+        },
+      },
+    });
+  }
+}